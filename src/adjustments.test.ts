@@ -0,0 +1,62 @@
+import {
+  parseAdjustmentsLedger,
+  indexAccountLists,
+  AdjustmentsError
+} from './adjustments';
+
+describe('Adjustments Ledger', () => {
+  const entry = {
+    account: '0xaaa',
+    epochBegin: 1000,
+    epochEnded: 1999,
+    points: '250.5',
+    author: 'alice',
+    note: 'Compensation for incident'
+  };
+
+  it('should parse adjustments', () => {
+    const [adjustment] = parseAdjustmentsLedger({ version: 1, adjustments: [entry] });
+
+    expect(adjustment.points.toNumber()).toBe(250.5);
+    expect(adjustment.author).toBe('alice');
+  });
+
+  it('should require author, note and non-zero points', () => {
+    try {
+      parseAdjustmentsLedger({
+        version: 1,
+        adjustments: [{ ...entry, author: '', note: '', points: '0' }]
+      });
+      fail('Expected AdjustmentsError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AdjustmentsError);
+      expect((error as AdjustmentsError).issues).toEqual([
+        'adjustments[0].author is required',
+        'adjustments[0].note is required',
+        'adjustments[0].points must be a non-zero number: 0'
+      ]);
+    }
+  });
+
+  it('should reject inverted epochs and unsupported versions', () => {
+    expect(() => parseAdjustmentsLedger({ version: 1, adjustments: [{ ...entry, epochEnded: 999 }] }))
+      .toThrow('integer epochBegin <= epochEnded');
+    expect(() => parseAdjustmentsLedger({ version: 2, adjustments: [] }))
+      .toThrow('Unsupported adjustments ledger version 2');
+  });
+
+  it('should index account lists by lowercase address', () => {
+    const { excluded, allowed } = indexAccountLists({
+      exclude: [{ account: '0xAAA', reason: 'EXPLOIT' }],
+      allow: [{ account: '0xBBB', reason: 'PARTNER' }]
+    });
+
+    expect(excluded.get('0xaaa')!.reason).toBe('EXPLOIT');
+    expect(allowed.get('0xbbb')!.reason).toBe('PARTNER');
+  });
+
+  it('should reject unknown reason codes', () => {
+    expect(() => indexAccountLists({ exclude: [{ account: '0xaaa', reason: 'BANNED' as any }] }))
+      .toThrow('exclude entry 0xaaa has unknown reason BANNED');
+  });
+});
@@ -0,0 +1,174 @@
+import Decimal from 'decimal.js';
+import { readFile } from 'fs/promises';
+
+/**
+ * Account exclusion / allow lists and the manual adjustments ledger
+ *
+ * - Excluded accounts (team wallets, market makers, exploit addresses) get zero points
+ * - Allow-listed accounts are exempt from the automated risk policy
+ * - Adjustments add or subtract points for one account in one epoch, after the formula
+ */
+
+export type AccountListReasonCode =
+  | 'TEAM_WALLET'
+  | 'MARKET_MAKER'
+  | 'EXPLOIT'
+  | 'SYBIL'
+  | 'PARTNER'
+  | 'MANUAL_REVIEW';
+
+export const ACCOUNT_LIST_REASON_CODES: AccountListReasonCode[] = [
+  'TEAM_WALLET',
+  'MARKET_MAKER',
+  'EXPLOIT',
+  'SYBIL',
+  'PARTNER',
+  'MANUAL_REVIEW'
+];
+
+export interface AccountListEntry {
+  account: string;
+  reason: AccountListReasonCode;
+  note?: string;
+}
+
+export interface AccountLists {
+  exclude?: AccountListEntry[];
+  allow?: AccountListEntry[];
+}
+
+export interface Adjustment {
+  account: string;
+  epochBegin: number;
+  epochEnded: number;
+  points: Decimal;  // Positive to grant, negative to subtract
+  author: string;
+  note: string;
+}
+
+export const ADJUSTMENTS_LEDGER_VERSION = 1;
+
+// Raw JSON shapes (points as decimal strings)
+export interface AdjustmentJson {
+  account: string;
+  epochBegin: number;
+  epochEnded: number;
+  points: string;
+  author: string;
+  note: string;
+}
+
+export interface AdjustmentsLedgerJson {
+  version: number;
+  adjustments: AdjustmentJson[];
+}
+
+export class AdjustmentsError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n  - ${issues.join('\n  - ')}` : message);
+    this.name = 'AdjustmentsError';
+  }
+}
+
+/**
+ * Index account lists by lowercase address. An account may not be on both lists.
+ */
+export function indexAccountLists(lists: AccountLists): {
+  excluded: Map<string, AccountListEntry>;
+  allowed: Map<string, AccountListEntry>;
+} {
+  const issues: string[] = [];
+  const index = (entries: AccountListEntry[] = [], list: string) => {
+    const map = new Map<string, AccountListEntry>();
+    for (const entry of entries) {
+      if (!ACCOUNT_LIST_REASON_CODES.includes(entry.reason)) {
+        issues.push(`${list} entry ${entry.account} has unknown reason ${entry.reason}`);
+      }
+      map.set(entry.account.toLowerCase(), entry);
+    }
+    return map;
+  };
+
+  const excluded = index(lists.exclude, 'exclude');
+  const allowed = index(lists.allow, 'allow');
+  for (const account of excluded.keys()) {
+    if (allowed.has(account)) {
+      issues.push(`${account} is on both the exclude and allow lists`);
+    }
+  }
+  if (issues.length > 0) {
+    throw new AdjustmentsError('Invalid account lists', issues);
+  }
+  return { excluded, allowed };
+}
+
+/**
+ * Parse and validate an adjustments ledger JSON object
+ */
+export function parseAdjustmentsLedger(raw: unknown): Adjustment[] {
+  const json = raw as AdjustmentsLedgerJson;
+  if (!json || typeof json !== 'object') {
+    throw new AdjustmentsError('Adjustments ledger must be an object');
+  }
+  if (json.version !== ADJUSTMENTS_LEDGER_VERSION) {
+    throw new AdjustmentsError(`Unsupported adjustments ledger version ${json.version}, expected ${ADJUSTMENTS_LEDGER_VERSION}`);
+  }
+  if (!Array.isArray(json.adjustments)) {
+    throw new AdjustmentsError('Adjustments ledger must contain an adjustments array');
+  }
+
+  const issues: string[] = [];
+  const adjustments = json.adjustments.map((entry, index) => {
+    const path = `adjustments[${index}]`;
+    if (!entry.account) {
+      issues.push(`${path}.account is required`);
+    }
+    if (!Number.isInteger(entry.epochBegin) || !Number.isInteger(entry.epochEnded) || entry.epochEnded < entry.epochBegin) {
+      issues.push(`${path} must have integer epochBegin <= epochEnded`);
+    }
+    if (!entry.author) {
+      issues.push(`${path}.author is required`);
+    }
+    if (!entry.note) {
+      issues.push(`${path}.note is required`);
+    }
+
+    let points = new Decimal(0);
+    try {
+      points = new Decimal(entry.points);
+      if (!points.isFinite() || points.isZero()) {
+        issues.push(`${path}.points must be a non-zero number: ${entry.points}`);
+      }
+    } catch {
+      issues.push(`${path}.points is not a valid number: ${entry.points}`);
+    }
+
+    return {
+      account: entry.account,
+      epochBegin: entry.epochBegin,
+      epochEnded: entry.epochEnded,
+      points,
+      author: entry.author,
+      note: entry.note
+    };
+  });
+
+  if (issues.length > 0) {
+    throw new AdjustmentsError('Invalid adjustments ledger', issues);
+  }
+  return adjustments;
+}
+
+/**
+ * Load and validate an adjustments ledger JSON file
+ */
+export async function loadAdjustmentsLedger(path: string): Promise<Adjustment[]> {
+  const content = await readFile(path, 'utf8');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new AdjustmentsError(`Failed to parse adjustments ledger ${path}: ${(error as Error).message}`);
+  }
+  return parseAdjustmentsLedger(raw);
+}
@@ -0,0 +1,135 @@
+import Decimal from 'decimal.js';
+import { SubgraphLeaderboardResponse } from './subgraph-types';
+import { transformLeaderboards } from './data-transformer';
+import { CalculationConfig, calculateUserPoints } from './index';
+import { transformPages, calculateUserPointsStream, drainToSink } from './pipeline';
+
+/**
+ * Throughput benchmark of the streaming pipeline against the in-memory path,
+ * over synthetic subgraph pages
+ *
+ * Usage: node dist/src/benchmark.js [accounts] [stream|memory|both]
+ */
+
+const PAGE_SIZE = 1000;
+const START = 1759190400;
+const STOP = 1759193999;
+
+const config: CalculationConfig = {
+  liquidityRate: new Decimal(0.1).div(3600),
+  tradeRate: new Decimal(5),
+  tradeProfitRate: new Decimal(1)
+};
+
+function createAccount(index: number): SubgraphLeaderboardResponse {
+  const account = '0x' + index.toString(16).padStart(40, '0');
+  const volume = (index % 997) * 1000;
+  const snap = (scale: number, timestamp: number) => ({
+    id: `${account}-${timestamp}`,
+    margin: '100',
+    tradedReferralsCount: '0',
+    tradingVolume: String(volume * scale),
+    conditionTradeVolume: '0',
+    timestamp: String(timestamp),
+    swap: '0',
+    referral: '0x0000000000000000000000000000000000000000',
+    netProfit: String((index % 13 - 6) * 10 * scale),
+    collateralUsd: '1000'
+  });
+  return {
+    account,
+    swap: '0',
+    tradingVolume: String(volume * 2),
+    conditionTradeVolume: '0',
+    netProfit: String((index % 13 - 6) * 20),
+    latestUpdateTimestamp: String(STOP + 100),
+    start: [snap(1, START - 100)],
+    ended: [snap(2, STOP - 100)],
+    liquidity: {
+      account,
+      lp: '10',
+      start: [{ id: `${account}-lp-start`, lp: '10', basePoints: '0', timestamp: String(START - 100) }],
+      ended: [{ id: `${account}-lp-end`, lp: '10', basePoints: '36000', timestamp: String(STOP - 100) }]
+    }
+  };
+}
+
+async function* syntheticPages(accounts: number): AsyncGenerator<SubgraphLeaderboardResponse[]> {
+  for (let offset = 0; offset < accounts; offset += PAGE_SIZE) {
+    const page: SubgraphLeaderboardResponse[] = [];
+    for (let i = offset; i < Math.min(offset + PAGE_SIZE, accounts); i++) {
+      page.push(createAccount(i));
+    }
+    yield page;
+  }
+}
+
+interface BenchmarkResult {
+  mode: string;
+  accounts: number;
+  durationMs: number;
+  peakHeapMb: number;
+}
+
+function heapMb(): number {
+  return process.memoryUsage().heapUsed / 1024 / 1024;
+}
+
+async function benchmarkStream(accounts: number): Promise<BenchmarkResult> {
+  let peak = heapMb();
+  const startedAt = Date.now();
+  const summary = await drainToSink(
+    calculateUserPointsStream(transformPages(syntheticPages(accounts)), config, START, STOP, true),
+    {
+      write: () => {
+        peak = Math.max(peak, heapMb());
+      }
+    }
+  );
+  return { mode: 'stream', accounts: summary.accounts, durationMs: Date.now() - startedAt, peakHeapMb: peak };
+}
+
+async function benchmarkMemory(accounts: number): Promise<BenchmarkResult> {
+  let peak = heapMb();
+  const startedAt = Date.now();
+  const raw: SubgraphLeaderboardResponse[] = [];
+  for await (const page of syntheticPages(accounts)) {
+    raw.push(...page);
+  }
+  peak = Math.max(peak, heapMb());
+  const data = transformLeaderboards(raw);
+  peak = Math.max(peak, heapMb());
+  const results = calculateUserPoints(data, config, START, STOP, true);
+  peak = Math.max(peak, heapMb());
+  return { mode: 'memory', accounts: results.length, durationMs: Date.now() - startedAt, peakHeapMb: peak };
+}
+
+function report(result: BenchmarkResult): void {
+  const perSecond = result.accounts / Math.max(result.durationMs / 1000, 0.001);
+  console.log(
+    `${result.mode.padEnd(8)} ${String(result.accounts).padStart(9)} accounts ` +
+    `${(result.durationMs / 1000).toFixed(2).padStart(8)} s ` +
+    `${perSecond.toFixed(0).padStart(9)} accounts/s ` +
+    `peak heap ${result.peakHeapMb.toFixed(1)} MB`
+  );
+}
+
+async function main() {
+  const accounts = parseInt(process.argv[2] || '100000', 10);
+  const mode = process.argv[3] || 'both';
+
+  console.log(`🏁 Benchmarking ${accounts} synthetic accounts (${PAGE_SIZE} per page)\n`);
+  if (mode === 'stream' || mode === 'both') {
+    report(await benchmarkStream(accounts));
+  }
+  if (global.gc) {
+    global.gc();
+  }
+  if (mode === 'memory' || mode === 'both') {
+    report(await benchmarkMemory(accounts));
+  }
+}
+
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -0,0 +1,39 @@
+import { ResponseCache } from './response-cache';
+
+/**
+ * Inspect or purge the on-disk response cache
+ *
+ * Usage:
+ *   node dist/src/cache-cli.js stats <dir>
+ *   node dist/src/cache-cli.js purge <dir> [--expired] [--endpoint <url>]
+ */
+
+async function main() {
+  const [command, dir, ...flags] = process.argv.slice(2);
+  if (!dir || (command !== 'stats' && command !== 'purge')) {
+    console.error('Usage: cache-cli stats <dir> | cache-cli purge <dir> [--expired] [--endpoint <url>]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const cache = new ResponseCache({ dir });
+  if (command === 'stats') {
+    const stats = await cache.inspect();
+    console.log(`🗄️  ${stats.entries} entries (${stats.finalEntries} final, ${stats.expiredEntries} expired), ${(stats.bytes / 1024 / 1024).toFixed(1)} MB in ${dir}`);
+    return;
+  }
+
+  const endpointIndex = flags.indexOf('--endpoint');
+  const deleted = await cache.purge({
+    expiredOnly: flags.includes('--expired'),
+    endpoint: endpointIndex >= 0 ? flags[endpointIndex + 1] : undefined
+  });
+  console.log(`🧹 Deleted ${deleted} entries from ${dir}`);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
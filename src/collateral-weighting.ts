@@ -0,0 +1,135 @@
+import Decimal from 'decimal.js';
+import type { PerpLeaderboard, PointCategory } from './index';
+
+/**
+ * Collateral- and margin-weighted trading points
+ *
+ * Trading volume is weighted by the collateral an account actually deployed during
+ * the epoch, so that volume churned on thin collateral earns less than volume backed
+ * by real risk. Two mechanisms are available and may be combined:
+ *
+ * - maxTurnover: volume counted for points is capped at maxTurnover × average collateral;
+ *   when the weighted categories exceed the cap they are scaled down proportionally.
+ *   Accounts whose snapshots carry no collateral are not capped
+ * - curve: a piecewise-linear multiplier over average collateral, flat beyond the
+ *   first and last points. Accounts whose snapshots carry no collateral get a
+ *   neutral multiplier of 1
+ */
+
+export type CollateralSource = 'collateralUsd' | 'margin';
+
+export interface CollateralCurvePoint {
+  collateral: Decimal;
+  multiplier: Decimal;
+}
+
+export interface CollateralWeighting {
+  source?: CollateralSource;        // Snapshot field used as collateral, defaults to collateralUsd
+  maxTurnover?: Decimal;            // Counted volume per unit of average collateral
+  curve?: CollateralCurvePoint[];   // Multiplier by average collateral
+  categories?: PointCategory[];     // Weighted categories, defaults to volume and conditionVolume
+}
+
+export const DEFAULT_WEIGHTED_CATEGORIES: PointCategory[] = ['volume', 'conditionVolume'];
+
+/**
+ * How an account's trading volume was weighted
+ */
+export interface CollateralWeightingBreakdown {
+  source: CollateralSource;
+  averageCollateral: Decimal;       // 0 when the snapshots carry no collateral
+  turnoverFactor: Decimal;          // Scale applied by maxTurnover, 1 when under the cap or collateral is unknown
+  curveMultiplier: Decimal;         // Multiplier from the curve, 1 without a curve or when collateral is unknown
+  multiplier: Decimal;              // turnoverFactor × curveMultiplier
+  unweighted: Partial<Record<PointCategory, Decimal>>;  // Metrics before weighting
+}
+
+/**
+ * Average collateral across the start and ended snapshots, or null when unknown
+ */
+export function getAverageCollateral(
+  lead: PerpLeaderboard,
+  source: CollateralSource = 'collateralUsd'
+): Decimal | null {
+  const values = [lead.start[0]?.[source], lead.ended[0]?.[source]]
+    .filter((value): value is Decimal => !!value && value.gt(0));
+  if (values.length === 0) {
+    return null;
+  }
+  return values.reduce((sum, value) => sum.add(value), new Decimal(0)).div(values.length);
+}
+
+/**
+ * Evaluate a multiplier curve at the given collateral. Points may be given in any order.
+ */
+export function interpolateCurve(curve: CollateralCurvePoint[], collateral: Decimal): Decimal {
+  if (curve.length === 0) {
+    return new Decimal(1);
+  }
+  const points = [...curve].sort((a, b) => a.collateral.comparedTo(b.collateral));
+  if (collateral.lte(points[0].collateral)) {
+    return points[0].multiplier;
+  }
+  for (let i = 1; i < points.length; i++) {
+    const lower = points[i - 1];
+    const upper = points[i];
+    if (collateral.lte(upper.collateral)) {
+      const span = upper.collateral.sub(lower.collateral);
+      if (span.isZero()) {
+        return upper.multiplier;
+      }
+      const ratio = collateral.sub(lower.collateral).div(span);
+      return lower.multiplier.add(upper.multiplier.sub(lower.multiplier).mul(ratio));
+    }
+  }
+  return points[points.length - 1].multiplier;
+}
+
+/**
+ * Weight an account's trading metrics by its average collateral
+ *
+ * @param lead Leaderboard data of the account
+ * @param metrics Epoch metrics per category, before weighting
+ * @param weighting Weighting rules
+ * @returns Weighted metrics for the weighted categories, and how they were derived
+ */
+export function applyCollateralWeighting(
+  lead: PerpLeaderboard,
+  metrics: Partial<Record<PointCategory, Decimal>>,
+  weighting: CollateralWeighting
+): { weighted: Partial<Record<PointCategory, Decimal>>; breakdown: CollateralWeightingBreakdown } {
+  const source = weighting.source || 'collateralUsd';
+  const categories = weighting.categories || DEFAULT_WEIGHTED_CATEGORIES;
+  const knownCollateral = getAverageCollateral(lead, source);
+  const averageCollateral = knownCollateral || new Decimal(0);
+
+  const unweighted: Partial<Record<PointCategory, Decimal>> = {};
+  let totalVolume = new Decimal(0);
+  for (const category of categories) {
+    const value = metrics[category] || new Decimal(0);
+    unweighted[category] = value;
+    if (value.gt(0)) {
+      totalVolume = totalVolume.add(value);
+    }
+  }
+
+  let turnoverFactor = new Decimal(1);
+  if (weighting.maxTurnover && knownCollateral && totalVolume.gt(0)) {
+    const limit = weighting.maxTurnover.mul(averageCollateral);
+    if (totalVolume.gt(limit)) {
+      turnoverFactor = limit.div(totalVolume);
+    }
+  }
+  const curveMultiplier = weighting.curve && knownCollateral ? interpolateCurve(weighting.curve, knownCollateral) : new Decimal(1);
+  const multiplier = turnoverFactor.mul(curveMultiplier);
+
+  const weighted: Partial<Record<PointCategory, Decimal>> = {};
+  for (const category of categories) {
+    weighted[category] = unweighted[category]!.mul(multiplier);
+  }
+
+  return {
+    weighted,
+    breakdown: { source, averageCollateral, turnoverFactor, curveMultiplier, multiplier, unweighted }
+  };
+}
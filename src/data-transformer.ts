@@ -25,7 +25,11 @@ export function transformLeaderboardSnap(snap: SubgraphSnapResponse): PerpLeader
     tradingVolume: new Decimal(snap.tradingVolume || '0'),
     conditionTradeVolume: new Decimal(snap.conditionTradeVolume || '0'),
     swap: new Decimal(snap.swap || '0'),
-    netProfit: new Decimal(snap.netProfit || '0')
+    netProfit: new Decimal(snap.netProfit || '0'),
+    referral: snap.referral,
+    tradedReferralsCount: snap.tradedReferralsCount ? parseInt(snap.tradedReferralsCount) : undefined,
+    collateralUsd: snap.collateralUsd ? new Decimal(snap.collateralUsd) : undefined,
+    margin: snap.margin ? new Decimal(snap.margin) : undefined
   };
 }
 
@@ -50,7 +54,8 @@ export function transformLiquidity(liquidity: SubgraphLiquidityResponse | null):
       account: '',
       lp: new Decimal(0),
       start: [],
-      ended: []
+      ended: [],
+      history: []
     };
   }
 
@@ -58,7 +63,8 @@ export function transformLiquidity(liquidity: SubgraphLiquidityResponse | null):
     account: liquidity.account,
     lp: new Decimal(liquidity.lp || '0'),
     start: liquidity.start.map(transformLiquiditySnap),
-    ended: liquidity.ended.map(transformLiquiditySnap)
+    ended: liquidity.ended.map(transformLiquiditySnap),
+    history: liquidity.history?.map(transformLiquiditySnap)
   };
 }
 
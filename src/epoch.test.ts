@@ -0,0 +1,94 @@
+import {
+  EpochError,
+  generateEpochs,
+  getEpochWindow,
+  isEpochBoundary,
+  snapToEpochStart,
+  validateEpochRange,
+  validateEpochWindow
+} from './epoch';
+
+describe('Epoch Windows', () => {
+  const utc = (iso: string) => Date.parse(iso) / 1000;
+
+  it('should snap to hourly, daily and weekly boundaries in UTC', () => {
+    const timestamp = utc('2025-09-30T15:42:10Z'); // a Tuesday
+
+    expect(snapToEpochStart(timestamp, { length: 'hour' })).toBe(utc('2025-09-30T15:00:00Z'));
+    expect(snapToEpochStart(timestamp, { length: 'day' })).toBe(utc('2025-09-30T00:00:00Z'));
+    expect(snapToEpochStart(timestamp, { length: 'week' })).toBe(utc('2025-09-29T00:00:00Z'));
+  });
+
+  it('should align to a custom anchor', () => {
+    const schedule = { length: 'day' as const, anchor: utc('2025-01-01T08:00:00Z') };
+
+    expect(getEpochWindow(utc('2025-09-30T07:59:59Z'), schedule)).toEqual({
+      epochBegin: utc('2025-09-29T08:00:00Z'),
+      epochEnded: utc('2025-09-30T07:59:59Z')
+    });
+  });
+
+  it('should follow daylight saving changes for daily cutoffs in a timezone', () => {
+    const schedule = { length: 'day' as const, timeZone: 'America/New_York' };
+
+    // 2025-03-09 lasts 23 hours in New York, 2025-11-02 lasts 25
+    expect(getEpochWindow(utc('2025-03-09T12:00:00Z'), schedule)).toEqual({
+      epochBegin: utc('2025-03-09T05:00:00Z'),
+      epochEnded: utc('2025-03-10T03:59:59Z')
+    });
+    expect(getEpochWindow(utc('2025-11-02T12:00:00Z'), schedule)).toEqual({
+      epochBegin: utc('2025-11-02T04:00:00Z'),
+      epochEnded: utc('2025-11-03T04:59:59Z')
+    });
+  });
+
+  it('should shift a cutoff skipped by spring-forward by the length of the gap', () => {
+    // 02:30 does not exist in New York on 2025-03-09 and becomes 03:30 EDT
+    const schedule = { length: 'day' as const, timeZone: 'America/New_York', anchor: utc('2025-01-01T07:30:00Z') };
+
+    expect(getEpochWindow(utc('2025-03-09T12:00:00Z'), schedule)).toEqual({
+      epochBegin: utc('2025-03-09T07:30:00Z'),
+      epochEnded: utc('2025-03-10T06:29:59Z')
+    });
+    expect(getEpochWindow(utc('2025-03-09T07:00:00Z'), schedule)).toEqual({
+      epochBegin: utc('2025-03-08T07:30:00Z'),
+      epochEnded: utc('2025-03-09T07:29:59Z')
+    });
+  });
+
+  it('should start weekly epochs on the anchor weekday in a timezone', () => {
+    const schedule = { length: 'week' as const, timeZone: 'Asia/Shanghai' };
+
+    expect(getEpochWindow(utc('2025-10-05T20:00:00Z'), schedule)).toEqual({
+      epochBegin: utc('2025-10-05T16:00:00Z'),
+      epochEnded: utc('2025-10-12T15:59:59Z')
+    });
+  });
+
+  it('should generate contiguous windows covering a season', () => {
+    const epochs = generateEpochs(utc('2025-09-30T00:30:00Z'), utc('2025-09-30T02:00:00Z'), { length: 'hour' });
+
+    expect(epochs).toEqual([
+      { epochBegin: utc('2025-09-30T00:00:00Z'), epochEnded: utc('2025-09-30T00:59:59Z') },
+      { epochBegin: utc('2025-09-30T01:00:00Z'), epochEnded: utc('2025-09-30T01:59:59Z') },
+      { epochBegin: utc('2025-09-30T02:00:00Z'), epochEnded: utc('2025-09-30T02:59:59Z') }
+    ]);
+  });
+
+  it('should validate windows against the schedule', () => {
+    const hourly = { length: 'hour' as const };
+
+    expect(isEpochBoundary(1759190400, hourly)).toBe(true);
+    expect(() => validateEpochWindow({ epochBegin: 1759190400, epochEnded: 1759193999 }, hourly)).not.toThrow();
+    expect(() => validateEpochWindow({ epochBegin: 1759190401, epochEnded: 1759193999 }, hourly)).toThrow(EpochError);
+    expect(() => validateEpochWindow({ epochBegin: 1759190400, epochEnded: 1759197599 }, hourly))
+      .toThrow('epochEnded 1759197599 should be 1759193999');
+    expect(() => validateEpochRange({ epochBegin: 1759190400, epochEnded: 1759247999 }, hourly)).not.toThrow();
+    expect(() => validateEpochRange({ epochBegin: 1759190400, epochEnded: 1759248000 }, hourly))
+      .toThrow('is not the last second');
+  });
+
+  it('should reject unknown timezones', () => {
+    expect(() => snapToEpochStart(0, { length: 'day', timeZone: 'Mars/Olympus' })).toThrow('Unknown time zone');
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Epoch windows: generating, validating and snapping hourly, daily and weekly epochs
+ *
+ * An epoch is an inclusive window of unix seconds [epochBegin, epochEnded], where
+ * epochEnded is one second before the next epoch begins. Boundaries are aligned to an
+ * anchor timestamp. Daily and weekly epochs may follow a timezone, in which case each
+ * boundary falls at the anchor's local time of day (and weekday), so a day can last
+ * 23 or 25 hours across daylight-saving changes.
+ */
+
+export type EpochLength = 'hour' | 'day' | 'week';
+
+export interface EpochWindow {
+  epochBegin: number;
+  epochEnded: number;
+}
+
+export interface EpochSchedule {
+  length: EpochLength;
+  anchor?: number;    // Any epoch boundary; defaults to midnight of Monday 1970-01-05 (local time with timeZone)
+  timeZone?: string;  // IANA timezone for daily and weekly cutoffs, defaults to UTC
+}
+
+export class EpochError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EpochError';
+  }
+}
+
+const EPOCH_SECONDS: Record<EpochLength, number> = {
+  hour: 3600,
+  day: 86400,
+  week: 604800
+};
+
+const DEFAULT_ANCHOR = 345600; // 1970-01-05T00:00:00Z, a Monday
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric'
+      });
+    } catch {
+      throw new EpochError(`Unknown time zone ${timeZone}`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Local wall-clock time of a timestamp in the timezone
+ */
+function toZonedParts(timestamp: number, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(timestamp * 1000))) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/**
+ * Seconds the wall clock in the timezone is ahead of UTC at the timestamp
+ */
+function getOffset(timestamp: number, timeZone: string): number {
+  const parts = toZonedParts(timestamp, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) / 1000;
+  return wallClock - timestamp;
+}
+
+/**
+ * Timestamp of a local wall-clock time in the timezone. Times skipped by a DST
+ * change are shifted forward by the length of the gap, as with Date: 02:30 on a
+ * one-hour spring-forward day becomes 03:30.
+ */
+function fromZonedParts(parts: ZonedParts, timeZone: string): number {
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) / 1000;
+  let timestamp = wallClock - getOffset(wallClock, timeZone);
+  const offset = getOffset(timestamp, timeZone);
+  if (wallClock - offset !== timestamp) {
+    timestamp = Math.max(timestamp, wallClock - offset);
+  }
+  return timestamp;
+}
+
+/**
+ * Local date shifted by a number of days, keeping the time of day
+ */
+function addDays(parts: ZonedParts, days: number): ZonedParts {
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day + days));
+  return { ...parts, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+function dayNumber(parts: ZonedParts): number {
+  return Math.floor(Date.UTC(parts.year, parts.month - 1, parts.day) / 86400000);
+}
+
+/**
+ * Local time of day and day number of the anchor; local Monday midnight by default
+ */
+function getZonedAnchor(schedule: EpochSchedule, timeZone: string): ZonedParts {
+  if (schedule.anchor === undefined) {
+    return { year: 1970, month: 1, day: 5, hour: 0, minute: 0, second: 0 };
+  }
+  return toZonedParts(schedule.anchor, timeZone);
+}
+
+function usesTimeZone(schedule: EpochSchedule): boolean {
+  return schedule.length !== 'hour' && !!schedule.timeZone && schedule.timeZone !== 'UTC';
+}
+
+function assertTimestamp(timestamp: number, name: string): void {
+  if (!Number.isInteger(timestamp)) {
+    throw new EpochError(`${name} must be an integer unix timestamp, got ${timestamp}`);
+  }
+}
+
+/**
+ * Start of the epoch containing the timestamp
+ */
+export function snapToEpochStart(timestamp: number, schedule: EpochSchedule): number {
+  assertTimestamp(timestamp, 'timestamp');
+  const anchor = schedule.anchor ?? DEFAULT_ANCHOR;
+
+  if (!usesTimeZone(schedule)) {
+    const length = EPOCH_SECONDS[schedule.length];
+    return anchor + Math.floor((timestamp - anchor) / length) * length;
+  }
+
+  const timeZone = schedule.timeZone!;
+  const anchorParts = getZonedAnchor(schedule, timeZone);
+  const local = toZonedParts(timestamp, timeZone);
+  let days = 0;
+  if (schedule.length === 'week') {
+    days = -(((dayNumber(local) - dayNumber(anchorParts)) % 7) + 7) % 7;
+  }
+  const candidate = { ...addDays(local, days), hour: anchorParts.hour, minute: anchorParts.minute, second: anchorParts.second };
+  let begin = fromZonedParts(candidate, timeZone);
+  if (begin > timestamp) {
+    begin = fromZonedParts(addDays(candidate, schedule.length === 'week' ? -7 : -1), timeZone);
+  }
+  return begin;
+}
+
+/**
+ * Start of the epoch following the one that begins at epochBegin
+ */
+function nextEpochStart(epochBegin: number, schedule: EpochSchedule): number {
+  if (!usesTimeZone(schedule)) {
+    return epochBegin + EPOCH_SECONDS[schedule.length];
+  }
+  const timeZone = schedule.timeZone!;
+  const anchorParts = getZonedAnchor(schedule, timeZone);
+  const local = toZonedParts(epochBegin, timeZone);
+  const next = addDays(
+    { ...local, hour: anchorParts.hour, minute: anchorParts.minute, second: anchorParts.second },
+    schedule.length === 'week' ? 7 : 1
+  );
+  return fromZonedParts(next, timeZone);
+}
+
+/**
+ * The epoch containing the timestamp
+ */
+export function getEpochWindow(timestamp: number, schedule: EpochSchedule): EpochWindow {
+  const epochBegin = snapToEpochStart(timestamp, schedule);
+  return { epochBegin, epochEnded: nextEpochStart(epochBegin, schedule) - 1 };
+}
+
+/**
+ * Whether the timestamp is the first second of an epoch
+ */
+export function isEpochBoundary(timestamp: number, schedule: EpochSchedule): boolean {
+  return snapToEpochStart(timestamp, schedule) === timestamp;
+}
+
+/**
+ * Throw an EpochError unless the window is exactly one epoch of the schedule
+ */
+export function validateEpochWindow(window: EpochWindow, schedule: EpochSchedule): void {
+  assertTimestamp(window.epochBegin, 'epochBegin');
+  assertTimestamp(window.epochEnded, 'epochEnded');
+  if (!isEpochBoundary(window.epochBegin, schedule)) {
+    throw new EpochError(`epochBegin ${window.epochBegin} is not the first second of a ${schedule.length} epoch`);
+  }
+  const expected = getEpochWindow(window.epochBegin, schedule).epochEnded;
+  if (window.epochEnded !== expected) {
+    throw new EpochError(`epochEnded ${window.epochEnded} should be ${expected}, the last second of the ${schedule.length} epoch`);
+  }
+}
+
+/**
+ * Throw an EpochError unless the window spans one or more whole epochs of the schedule
+ */
+export function validateEpochRange(window: EpochWindow, schedule: EpochSchedule): void {
+  assertTimestamp(window.epochBegin, 'epochBegin');
+  assertTimestamp(window.epochEnded, 'epochEnded');
+  if (window.epochEnded < window.epochBegin) {
+    throw new EpochError(`epochEnded ${window.epochEnded} is before epochBegin ${window.epochBegin}`);
+  }
+  if (!isEpochBoundary(window.epochBegin, schedule)) {
+    throw new EpochError(`epochBegin ${window.epochBegin} is not the first second of a ${schedule.length} epoch`);
+  }
+  if (!isEpochBoundary(window.epochEnded + 1, schedule)) {
+    throw new EpochError(`epochEnded ${window.epochEnded} is not the last second of a ${schedule.length} epoch`);
+  }
+}
+
+/**
+ * All epochs of the schedule overlapping [seasonStart, seasonEnd], in order
+ */
+export function generateEpochs(seasonStart: number, seasonEnd: number, schedule: EpochSchedule): EpochWindow[] {
+  assertTimestamp(seasonStart, 'seasonStart');
+  assertTimestamp(seasonEnd, 'seasonEnd');
+  if (seasonEnd < seasonStart) {
+    throw new EpochError(`seasonEnd ${seasonEnd} is before seasonStart ${seasonStart}`);
+  }
+
+  const windows: EpochWindow[] = [];
+  let epochBegin = snapToEpochStart(seasonStart, schedule);
+  while (epochBegin <= seasonEnd) {
+    const next = nextEpochStart(epochBegin, schedule);
+    windows.push({ epochBegin, epochEnded: next - 1 });
+    epochBegin = next;
+  }
+  return windows;
+}
@@ -0,0 +1,103 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Fee models used to estimate the trading fees deducted from an account's
+ * net profit before profit points are calculated
+ */
+
+/**
+ * Per-product fee rates, expressed as a fraction of the traded volume
+ */
+export interface FeeRates {
+  trade: Decimal;
+  conditionTrade?: Decimal;
+  swap?: Decimal;
+}
+
+/**
+ * A fee tier that applies once the account's epoch trading volume reaches minVolume
+ */
+export interface FeeTier {
+  minVolume: Decimal;
+  rates: FeeRates;
+}
+
+/**
+ * Epoch volumes an account traded, per product
+ */
+export interface FeeVolumes {
+  tradingVolume: Decimal;
+  conditionTradeVolume: Decimal;
+  swap: Decimal;
+}
+
+export type FeeCallback = (volumes: FeeVolumes, account: string) => Decimal;
+
+export type FeeModel =
+  | { type: 'flat'; rates: FeeRates }
+  | { type: 'tiered'; tiers: FeeTier[] }
+  | { type: 'custom'; calculate: FeeCallback };
+
+// Default fee model: 0.2% of trading volume
+export const DEFAULT_FEE_MODEL: FeeModel = {
+  type: 'flat',
+  rates: { trade: new Decimal(0.002) }
+};
+
+/**
+ * Apply a set of fee rates to the traded volumes
+ */
+function applyFeeRates(rates: FeeRates, volumes: FeeVolumes): Decimal {
+  return volumes.tradingVolume.mul(rates.trade)
+    .add(volumes.conditionTradeVolume.mul(rates.conditionTrade || 0))
+    .add(volumes.swap.mul(rates.swap || 0));
+}
+
+/**
+ * Select the tier matching the trading volume. Tiers may be given in any order;
+ * volume below the lowest tier falls back to the lowest tier.
+ */
+export function selectFeeTier(tiers: FeeTier[], tradingVolume: Decimal): FeeTier {
+  if (tiers.length === 0) {
+    throw new Error('Tiered fee model requires at least one tier');
+  }
+
+  const sorted = [...tiers].sort((a, b) => a.minVolume.comparedTo(b.minVolume));
+  let selected = sorted[0];
+  for (const tier of sorted) {
+    if (tradingVolume.gte(tier.minVolume)) {
+      selected = tier;
+    }
+  }
+  return selected;
+}
+
+/**
+ * Calculate the fee for an account's epoch volumes.
+ * Negative volumes (bad snapshot deltas) are treated as zero, so the fee is never negative.
+ */
+export function calculateFee(
+  model: FeeModel,
+  volumes: FeeVolumes,
+  account: string
+): Decimal {
+  const clamped: FeeVolumes = {
+    tradingVolume: Decimal.max(volumes.tradingVolume, 0),
+    conditionTradeVolume: Decimal.max(volumes.conditionTradeVolume, 0),
+    swap: Decimal.max(volumes.swap, 0)
+  };
+
+  switch (model.type) {
+    case 'flat':
+      return applyFeeRates(model.rates, clamped);
+    case 'tiered':
+      return applyFeeRates(selectFeeTier(model.tiers, clamped.tradingVolume).rates, clamped);
+    case 'custom': {
+      const fee = model.calculate(clamped, account);
+      if (!Decimal.isDecimal(fee) || !fee.isFinite() || fee.isNegative()) {
+        throw new Error(`Fee callback returned an invalid fee for ${account}: ${fee}`);
+      }
+      return fee;
+    }
+  }
+}
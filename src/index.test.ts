@@ -1,13 +1,20 @@
 import Decimal from 'decimal.js';
 import {
   calculateLiquidityPointBase,
+  calculatePiecewiseLiquidity,
   calculateUserPoints,
+  applyPointCaps,
+  distributeBudget,
+  createEmptyUserPoints,
+  UserPoints,
   PerpLiquidity,
   PerpLeaderboard,
   CalculationConfig,
   PerpLiquiditySnap,
   PerpLeaderboardSnap,
 } from './index';
+import { calculateFee, FeeModel } from './fee-model';
+import { getTotalPoints } from './leaderboard';
 
 describe('Perpetual Points Calculator', () => {
   // Test data helpers
@@ -35,6 +42,21 @@ describe('Perpetual Points Calculator', () => {
     netProfit: new Decimal(netProfit)
   });
 
+  type LeaderboardOverrides =
+    Partial<Record<'tradingVolume' | 'conditionTradeVolume' | 'swap' | 'netProfit', number>> &
+    Partial<Pick<PerpLeaderboard, 'latestUpdateTimestamp' | 'start' | 'ended' | 'liquidity'>>;
+
+  const createLeaderboard = (account: string, overrides: LeaderboardOverrides = {}): PerpLeaderboard => ({
+    account,
+    tradingVolume: new Decimal(overrides.tradingVolume ?? 0),
+    conditionTradeVolume: new Decimal(overrides.conditionTradeVolume ?? 0),
+    swap: new Decimal(overrides.swap ?? 0),
+    netProfit: new Decimal(overrides.netProfit ?? 0),
+    latestUpdateTimestamp: overrides.latestUpdateTimestamp ?? 1500,
+    start: overrides.start ?? [],
+    ended: overrides.ended ?? [],
+    liquidity: overrides.liquidity ?? { account, lp: new Decimal(0), start: [], ended: [] }
+  });
 
   const createConfig = (
     liquidityRate: number = 1,
@@ -207,7 +229,10 @@ describe('Perpetual Points Calculator', () => {
         }
       };
 
-      const config = createConfig(2, 1000); // liquidityLimit = 1000
+      const config: CalculationConfig = {
+        ...createConfig(2),
+        caps: { liquidity: new Decimal(1000) } // liquidityLimit = 1000
+      };
       const results = calculateUserPoints(
         [leaderboard],
         config,
@@ -217,6 +242,7 @@ describe('Perpetual Points Calculator', () => {
       );
 
       expect(results[0].lp_usd_hours.toNumber()).toBe(1000);
+      expect(results[0].capped_points.liquidity.toNumber()).toBe(400000);
     });
 
     it('should handle trade volume with start snapshot', () => {
@@ -304,7 +330,10 @@ describe('Perpetual Points Calculator', () => {
         }
       };
 
-      const config = createConfig(1, 1,  1); // tradeLimit = 1500, tradeProfitLimit = 500
+      const config: CalculationConfig = {
+        ...createConfig(1, 1,  1),
+        caps: { volume: new Decimal(1500), profit: new Decimal(500) } // tradeLimit = 1500, tradeProfitLimit = 500
+      };
       const results = calculateUserPoints(
         [leaderboard],
         config,
@@ -315,6 +344,9 @@ describe('Perpetual Points Calculator', () => {
 
       expect(results[0].volume_usd.toNumber()).toBe(1500);
       expect(results[0].realized_pnl_net_usd.toNumber()).toBe(500);
+      expect(results[0].capped_points.volume.toNumber()).toBe(500);
+      // Net profit after fees: 1000 - 2000 * 0.002 = 996
+      expect(results[0].capped_points.profit.toNumber()).toBe(496);
     });
 
     it('should not calculate profit points for negative profit', () => {
@@ -428,4 +460,995 @@ describe('Perpetual Points Calculator', () => {
       expect(results[1].volume_usd.toNumber()).toBe(2000);
     });
   });
-});
\ No newline at end of file
+
+  describe('condition order and swap points', () => {
+    it('should award no condition or swap points by default', () => {
+      const leaderboard = createLeaderboard('user1', { tradingVolume: 1000, conditionTradeVolume: 500, swap: 100 });
+
+      const results = calculateUserPoints([leaderboard], createConfig(), 1000, 1500, false);
+
+      expect(results[0].condition_volume_usd.toNumber()).toBe(0);
+      expect(results[0].swap_usd.toNumber()).toBe(0);
+    });
+
+    it('should calculate condition and swap points from snapshot deltas', () => {
+      const leaderboard = createLeaderboard('user1', {
+        tradingVolume: 1500,
+        conditionTradeVolume: 750,
+        swap: 200,
+        netProfit: 80,
+        latestUpdateTimestamp: 2500,
+        start: [createLeaderboardSnap(200, 100, 50, 10)],
+        ended: [createLeaderboardSnap(1200, 600, 150, 60)]
+      });
+      const config: CalculationConfig = {
+        ...createConfig(),
+        conditionTradeRate: new Decimal(2),
+        swapRate: new Decimal(3)
+      };
+
+      const results = calculateUserPoints([leaderboard], config, 1000, 1500, true);
+
+      // Condition volume: 600 - 100 = 500, swap: 150 - 50 = 100
+      expect(results[0].condition_volume_usd.toNumber()).toBe(1000);
+      expect(results[0].swap_usd.toNumber()).toBe(300);
+    });
+
+    it('should not award negative condition or swap points', () => {
+      const leaderboard = createLeaderboard('user1', { start: [createLeaderboardSnap(0, 100, 50, 0)] });
+      const config: CalculationConfig = {
+        ...createConfig(),
+        conditionTradeRate: new Decimal(1),
+        swapRate: new Decimal(1)
+      };
+
+      const results = calculateUserPoints([leaderboard], config, 1000, 1500, false);
+
+      expect(results[0].condition_volume_usd.toNumber()).toBe(0);
+      expect(results[0].swap_usd.toNumber()).toBe(0);
+    });
+  });
+
+  describe('point caps', () => {
+    const createPoints = (liquidity: number, volume: number, profit: number): UserPoints => ({
+      ...createEmptyUserPoints('user1'),
+      lp_usd_hours: new Decimal(liquidity),
+      volume_usd: new Decimal(volume),
+      realized_pnl_net_usd: new Decimal(profit)
+    });
+
+    it('should leave points under the caps untouched', () => {
+      const points = createPoints(100, 200, 300);
+      applyPointCaps(points, { liquidity: new Decimal(100), total: new Decimal(600) });
+
+      expect(points.lp_usd_hours.toNumber()).toBe(100);
+      expect(points.volume_usd.toNumber()).toBe(200);
+      expect(points.realized_pnl_net_usd.toNumber()).toBe(300);
+      expect(points.capped_points.liquidity.toNumber()).toBe(0);
+      expect(points.capped_points.total.toNumber()).toBe(0);
+    });
+
+    it('should scale categories down proportionally to the total cap', () => {
+      const points = createPoints(100, 200, 300);
+      applyPointCaps(points, { total: new Decimal(300) });
+
+      expect(points.lp_usd_hours.toNumber()).toBe(50);
+      expect(points.volume_usd.toNumber()).toBe(100);
+      expect(points.realized_pnl_net_usd.toNumber()).toBe(150);
+      expect(points.capped_points.total.toNumber()).toBe(300);
+    });
+
+    it('should make capped categories sum exactly to the total cap', () => {
+      const points = createPoints(1, 1, 1);
+      applyPointCaps(points, { total: new Decimal(1) });
+
+      const total = points.lp_usd_hours.add(points.volume_usd).add(points.realized_pnl_net_usd);
+      expect(total.eq(1)).toBe(true);
+      expect(points.capped_points.total.toNumber()).toBe(2);
+    });
+
+    it('should apply category caps before the total cap', () => {
+      const points = createPoints(1000, 200, 0);
+      applyPointCaps(points, { liquidity: new Decimal(200), total: new Decimal(200) });
+
+      expect(points.capped_points.liquidity.toNumber()).toBe(800);
+      expect(points.capped_points.total.toNumber()).toBe(200);
+      expect(points.lp_usd_hours.toNumber()).toBe(100);
+      expect(points.volume_usd.toNumber()).toBe(100);
+    });
+  });
+
+  describe('budget distribution', () => {
+    it('should distribute a budget pro-rata over volume', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        budget: { amounts: { volume: new Decimal(1000) } }
+      };
+
+      const results = calculateUserPoints(
+        [createLeaderboard('user1', { tradingVolume: 100 }), createLeaderboard('user2', { tradingVolume: 300 })],
+        config,
+        1000,
+        1500,
+        false
+      );
+
+      expect(results[0].volume_usd.toNumber()).toBe(250);
+      expect(results[1].volume_usd.toNumber()).toBe(750);
+    });
+
+    it('should distribute the exact budget with deterministic remainders', () => {
+      const shares = [
+        { account: 'c', weight: new Decimal(1) },
+        { account: 'a', weight: new Decimal(1) },
+        { account: 'b', weight: new Decimal(1) }
+      ];
+
+      const allocations = distributeBudget(new Decimal(1), shares, 2);
+
+      expect(allocations.map(a => a.toString())).toEqual(['0.33', '0.34', '0.33']);
+      expect(allocations.reduce((sum, a) => sum.add(a), new Decimal(0)).eq(1)).toBe(true);
+    });
+
+    it('should ignore negative weights and leave the budget undistributed without activity', () => {
+      expect(distributeBudget(new Decimal(10), [
+        { account: 'a', weight: new Decimal(-5) },
+        { account: 'b', weight: new Decimal(5) }
+      ]).map(a => a.toNumber())).toEqual([0, 10]);
+
+      expect(distributeBudget(new Decimal(10), [
+        { account: 'a', weight: new Decimal(0) }
+      ]).map(a => a.toNumber())).toEqual([0]);
+    });
+
+    it('should reject a budget finer than the distribution precision', () => {
+      expect(() => distributeBudget(new Decimal('0.001'), [], 2)).toThrow('multiple of');
+    });
+
+    it('should keep rate-based points for categories without a budget', () => {
+      const config: CalculationConfig = {
+        ...createConfig(1, 1, 2),
+        budget: { amounts: { liquidity: new Decimal(1000) } }
+      };
+
+      const results = calculateUserPoints([createLeaderboard('user1', { tradingVolume: 100 })], config, 1000, 1500, false);
+
+      expect(results[0].volume_usd.toNumber()).toBe(200);
+      expect(results[0].lp_usd_hours.toNumber()).toBe(0);
+    });
+  });
+
+  describe('referral points', () => {
+    const createReferee = (account: string, tradingVolume: number, referral?: string): PerpLeaderboard =>
+      createLeaderboard(account, {
+        tradingVolume,
+        latestUpdateTimestamp: 2500,
+        ended: [{ ...createLeaderboardSnap(tradingVolume, 0, 0, 0), referral }]
+      });
+
+    const referralConfig = (...levels: number[]): CalculationConfig => ({
+      ...createConfig(),
+      referral: { levels: levels.map(level => new Decimal(level)) }
+    });
+
+    it('should give the referrer a share of the referee trading points', () => {
+      const results = calculateUserPoints(
+        [createReferee('0xaaa', 1000), createReferee('0xbbb', 2000, '0xAAA')],
+        referralConfig(0.1),
+        1000,
+        1500,
+        true
+      );
+
+      expect(results[0].referral_points.toNumber()).toBe(200);
+      expect(results[1].referral_points.toNumber()).toBe(0);
+    });
+
+    it('should pay multiple referral levels', () => {
+      const results = calculateUserPoints(
+        [
+          createReferee('0xaaa', 0),
+          createReferee('0xbbb', 0, '0xaaa'),
+          createReferee('0xccc', 1000, '0xbbb')
+        ],
+        referralConfig(0.1, 0.05),
+        1000,
+        1500,
+        true
+      );
+
+      expect(results[1].referral_points.toNumber()).toBe(100);
+      expect(results[0].referral_points.toNumber()).toBe(50);
+    });
+
+    it('should add referrers missing from the leaderboards', () => {
+      const results = calculateUserPoints(
+        [createReferee('0xbbb', 1000, '0xaaa')],
+        referralConfig(0.1),
+        1000,
+        1500,
+        true
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results[1].account).toBe('0xaaa');
+      expect(results[1].referral_points.toNumber()).toBe(100);
+      expect(results[1].volume_usd.toNumber()).toBe(0);
+    });
+
+    it('should stop at referral cycles', () => {
+      const results = calculateUserPoints(
+        [createReferee('0xaaa', 1000, '0xbbb'), createReferee('0xbbb', 0, '0xaaa')],
+        referralConfig(0.1, 0.1, 0.1),
+        1000,
+        1500,
+        true
+      );
+
+      // 0xaaa -> 0xbbb -> 0xaaa: only 0xbbb is rewarded, 0xaaa never earns from itself
+      expect(results[0].referral_points.toNumber()).toBe(0);
+      expect(results[1].referral_points.toNumber()).toBe(100);
+    });
+
+    it('should ignore the zero address and self-referrals', () => {
+      const results = calculateUserPoints(
+        [
+          createReferee('0xaaa', 1000, '0x0000000000000000000000000000000000000000'),
+          createReferee('0xbbb', 1000, '0xbbb')
+        ],
+        referralConfig(0.1),
+        1000,
+        1500,
+        true
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results.every(result => result.referral_points.isZero())).toBe(true);
+    });
+  });
+
+  describe('provisional and final results', () => {
+    // user1 holds 100 LP from the start of the window
+    const holding: LeaderboardOverrides = {
+      latestUpdateTimestamp: 1000,
+      liquidity: { account: 'user1', lp: new Decimal(100), start: [], ended: [createLiquiditySnap('1', 100, 0, 1000)] }
+    };
+
+    it('should flag results as provisional when not overtime', () => {
+      const provisional = calculateUserPoints([createLeaderboard('user1', holding)], createConfig(), 1000, 2000, false);
+      const final = calculateUserPoints([createLeaderboard('user1', holding)], createConfig(), 1000, 2000, true);
+
+      expect(provisional[0].provisional).toBe(true);
+      expect(final[0].provisional).toBe(false);
+    });
+
+    it('should hold the last LP until stopTime by default', () => {
+      const results = calculateUserPoints(
+        [createLeaderboard('user1', holding)],
+        createConfig(),
+        1000,
+        2000,
+        false,
+        { indexedTimestamp: 1200 }
+      );
+
+      expect(results[0].lp_usd_hours.toNumber()).toBe(100000);
+    });
+
+    it('should integrate liquidity only up to the indexed time without extrapolation', () => {
+      const config: CalculationConfig = { ...createConfig(), extrapolation: 'none' };
+
+      const results = calculateUserPoints(
+        [createLeaderboard('user1', holding)],
+        config,
+        1000,
+        2000,
+        false,
+        { indexedTimestamp: 1200 }
+      );
+
+      expect(results[0].lp_usd_hours.toNumber()).toBe(20000);
+    });
+
+    it('should require the indexed time when extrapolation is disabled', () => {
+      const config: CalculationConfig = { ...createConfig(), extrapolation: 'none' };
+
+      expect(() => calculateUserPoints([createLeaderboard('user1', holding)], config, 1000, 2000, false))
+        .toThrow('indexedTimestamp');
+    });
+
+    it('should ignore extrapolation and reject unindexed data in final mode', () => {
+      const config: CalculationConfig = { ...createConfig(), extrapolation: 'none' };
+
+      const results = calculateUserPoints([createLeaderboard('user1', holding)], config, 1000, 2000, true);
+      expect(results[0].lp_usd_hours.toNumber()).toBe(100000);
+
+      expect(() => calculateUserPoints(
+        [createLeaderboard('user1', holding)],
+        config,
+        1000,
+        2000,
+        true,
+        { indexedTimestamp: 1500 }
+      )).toThrow('Final calculation');
+    });
+  });
+
+  describe('explain mode', () => {
+    const explained: LeaderboardOverrides = {
+      tradingVolume: 1500,
+      conditionTradeVolume: 750,
+      swap: 200,
+      netProfit: -80,
+      latestUpdateTimestamp: 2500,
+      start: [createLeaderboardSnap(200, 100, 50, 10)],
+      ended: [createLeaderboardSnap(1200, 600, 150, -60)],
+      liquidity: {
+        account: 'user1',
+        lp: new Decimal(100),
+        start: [createLiquiditySnap('1', 100, 50, 900)],
+        ended: [createLiquiditySnap('2', 200, 100, 1400)]
+      }
+    };
+
+    it('should not explain by default', () => {
+      const results = calculateUserPoints([createLeaderboard('user1', explained)], createConfig(), 1000, 1500, true);
+
+      expect(results[0].explanation).toBeUndefined();
+    });
+
+    it('should explain snapshots, liquidity pieces and deltas', () => {
+      const results = calculateUserPoints(
+        [createLeaderboard('user1', explained)],
+        createConfig(),
+        1000,
+        1500,
+        true,
+        { explain: true }
+      );
+      const explanation = results[0].explanation!;
+
+      expect(explanation.endValueSource).toBe('snapshot');
+      expect(explanation.startSnap!.tradingVolume.toNumber()).toBe(200);
+      expect(explanation.endedSnap!.tradingVolume.toNumber()).toBe(1200);
+      expect(explanation.liquidity!.endBasePoints.toNumber()).toBe(100);
+      expect(explanation.liquidity!.endExtension.toNumber()).toBe(20000);
+      expect(explanation.liquidity!.startBasePoints.toNumber()).toBe(50);
+      expect(explanation.liquidity!.startExtension.toNumber()).toBe(10000);
+      expect(explanation.liquidity!.integral.toNumber()).toBe(10050);
+      expect(explanation.deltas.volume.toNumber()).toBe(1000);
+      expect(explanation.deltas.grossProfit.toNumber()).toBe(-70);
+      expect(explanation.deltas.fees.toNumber()).toBe(2);
+      expect(explanation.deltas.netProfit.toNumber()).toBe(-72);
+    });
+
+    it('should explain rates, clamping and caps per category', () => {
+      const config: CalculationConfig = {
+        ...createConfig(1, 1, 2),
+        caps: { volume: new Decimal(1500) }
+      };
+
+      const results = calculateUserPoints(
+        [createLeaderboard('user1', explained)],
+        config,
+        1000,
+        1500,
+        true,
+        { explain: true }
+      );
+      const { categories } = results[0].explanation!;
+
+      expect(categories.volume.rate!.toNumber()).toBe(2);
+      expect(categories.volume.pointsBeforeCaps.toNumber()).toBe(2000);
+      expect(categories.volume.points.toNumber()).toBe(1500);
+      expect(categories.profit.clampedToZero).toBe(true);
+      expect(categories.profit.points.toNumber()).toBe(0);
+    });
+
+    it('should add up to the result after risk and adjustments', () => {
+      const config: CalculationConfig = {
+        ...createConfig(1, 1, 2),
+        caps: { volume: new Decimal(1500) },
+        riskPolicy: { discountAtOrAbove: 0.5, discountRate: new Decimal(0.2) }
+      };
+
+      const [result] = calculateUserPoints(
+        [createLeaderboard('user1', explained)],
+        config,
+        1000,
+        1500,
+        true,
+        {
+          explain: true,
+          riskAssessments: [{ account: 'user1', score: 0.6, reasons: [] }],
+          adjustments: [{ account: 'user1', epochBegin: 1000, epochEnded: 1500, points: new Decimal(100), author: 'ops', note: 'bonus' }]
+        }
+      );
+      const explanation = result.explanation!;
+
+      expect(explanation.categories.volume.pointsBeforeCaps.toNumber()).toBe(2000);
+      expect(explanation.categories.volume.points.toNumber()).toBe(1200);
+      expect(explanation.riskDeductedPoints.eq(result.risk_deducted_points)).toBe(true);
+      expect(explanation.adjustmentPoints.toNumber()).toBe(100);
+      expect(explanation.totalPoints.eq(getTotalPoints(result))).toBe(true);
+    });
+
+    it('should be serializable for storage', () => {
+      const results = calculateUserPoints(
+        [createLeaderboard('user1', explained)],
+        createConfig(),
+        1000,
+        1500,
+        true,
+        { explain: true }
+      );
+      const stored = JSON.parse(JSON.stringify(results[0].explanation));
+
+      expect(stored.deltas.volume).toBe('1000');
+      expect(stored.categories.liquidity.rate).toBe('1');
+    });
+  });
+
+  describe('liquidity rules', () => {
+    const createHistoryLiquidity = (
+      start: PerpLiquiditySnap[],
+      history: PerpLiquiditySnap[]
+    ): PerpLiquidity => ({
+      account: 'user1',
+      lp: new Decimal(0),
+      start,
+      ended: history.length > 0 ? [history[history.length - 1]] : start,
+      history
+    });
+
+    it('should require the snapshot history', () => {
+      const liquidity: PerpLiquidity = {
+        account: 'user1',
+        lp: new Decimal(0),
+        start: [],
+        ended: []
+      };
+
+      expect(() => calculatePiecewiseLiquidity(liquidity, 1000, 2000, { minHoldingSeconds: 60 }))
+        .toThrow('snapshot history');
+    });
+
+    it('should integrate piecewise over the history', () => {
+      const liquidity = createHistoryLiquidity(
+        [createLiquiditySnap('1', 100, 0, 500)],
+        [createLiquiditySnap('2', 300, 0, 1500)]
+      );
+
+      const { integral } = calculatePiecewiseLiquidity(liquidity, 1000, 2000, {});
+      // 100 * 500 + 300 * 500
+      expect(integral.toNumber()).toBe(200000);
+    });
+
+    it('should not count flash liquidity held shorter than the minimum', () => {
+      const liquidity = createHistoryLiquidity([], [
+        createLiquiditySnap('1', 1000, 0, 1100),
+        createLiquiditySnap('2', 0, 0, 1200)
+      ]);
+
+      expect(calculatePiecewiseLiquidity(liquidity, 1000, 2000, {}).integral.toNumber()).toBe(100000);
+      expect(calculatePiecewiseLiquidity(liquidity, 1000, 2000, { minHoldingSeconds: 3600 }).integral.toNumber()).toBe(0);
+    });
+
+    it('should only drop the short-lived part of a position', () => {
+      const liquidity = createHistoryLiquidity(
+        [createLiquiditySnap('1', 100, 0, 500)],
+        [
+          createLiquiditySnap('2', 300, 0, 1100),
+          createLiquiditySnap('3', 100, 0, 1150)
+        ]
+      );
+
+      const { integral, segments } = calculatePiecewiseLiquidity(liquidity, 1000, 2000, { minHoldingSeconds: 60 });
+
+      expect(integral.toNumber()).toBe(100000);
+      expect(segments).toContainEqual({ from: 1100, to: 1150, lp: new Decimal(200), counted: false });
+    });
+
+    it('should not count deposits held shorter than the minimum at the end of the window', () => {
+      const liquidity = createHistoryLiquidity([], [createLiquiditySnap('1', 1000, 0, 1990)]);
+
+      expect(calculatePiecewiseLiquidity(liquidity, 1000, 2000, { minHoldingSeconds: 60 }).integral.toNumber()).toBe(0);
+    });
+
+    it('should count only the minimum balance held across the window', () => {
+      const liquidity = createHistoryLiquidity(
+        [createLiquiditySnap('1', 100, 0, 500)],
+        [
+          createLiquiditySnap('2', 50, 0, 1500),
+          createLiquiditySnap('3', 200, 0, 1800)
+        ]
+      );
+
+      const { integral } = calculatePiecewiseLiquidity(liquidity, 1000, 2000, { minimumBalance: true });
+      expect(integral.toNumber()).toBe(50000);
+    });
+
+    it('should apply liquidity rules in calculateUserPoints', () => {
+      const leaderboard = createLeaderboard('user1', {
+        latestUpdateTimestamp: 1200,
+        liquidity: createHistoryLiquidity([], [
+          createLiquiditySnap('1', 1000, 0, 1100),
+          createLiquiditySnap('2', 0, 100000, 1200)
+        ])
+      });
+      const config: CalculationConfig = { ...createConfig(), liquidityRules: { minHoldingSeconds: 3600 } };
+
+      const results = calculateUserPoints([leaderboard], config, 1000, 2000, true, { explain: true });
+
+      expect(results[0].lp_usd_hours.toNumber()).toBe(0);
+      expect(results[0].explanation!.liquidity!.segments).toHaveLength(1);
+      expect(results[0].explanation!.liquidity!.endBasePoints.toNumber()).toBe(100000);
+    });
+  });
+
+  describe('eligibility', () => {
+    // Profitable accounts holding 1 LP from the start of the window
+    const createActiveLeaderboard = (account: string, tradingVolume: number): PerpLeaderboard =>
+      createLeaderboard(account, {
+        tradingVolume,
+        netProfit: 100,
+        liquidity: { account, lp: new Decimal(1), start: [], ended: [createLiquiditySnap('1', 1, 0, 1000)] }
+      });
+
+    it('should zero trading points below the minimum trade volume', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        eligibility: { minTradeVolume: new Decimal(500) }
+      };
+
+      const results = calculateUserPoints(
+        [createActiveLeaderboard('user1', 100), createActiveLeaderboard('user2', 1000)],
+        config,
+        1000,
+        1500,
+        false
+      );
+
+      expect(results[0].volume_usd.toNumber()).toBe(0);
+      expect(results[0].realized_pnl_net_usd.toNumber()).toBe(0);
+      expect(results[0].lp_usd_hours.toNumber()).toBe(500);
+      expect(results[1].volume_usd.toNumber()).toBe(1000);
+    });
+
+    it('should exclude ineligible accounts from budget distribution', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        budget: { amounts: { liquidity: new Decimal(100) } },
+        eligibility: { minLiquidityIntegral: new Decimal(1000) }
+      };
+      const large = createActiveLeaderboard('user2', 0);
+      large.liquidity.ended = [createLiquiditySnap('1', 10, 0, 1000)];
+
+      const results = calculateUserPoints(
+        [createActiveLeaderboard('user1', 0), large],
+        config,
+        1000,
+        1500,
+        false
+      );
+
+      expect(results[0].lp_usd_hours.toNumber()).toBe(0);
+      expect(results[1].lp_usd_hours.toNumber()).toBe(100);
+    });
+  });
+
+  describe('collateral weighting', () => {
+    const collateralized: LeaderboardOverrides = {
+      tradingVolume: 100000,
+      netProfit: 1000,
+      latestUpdateTimestamp: 2000,
+      start: [{ ...createLeaderboardSnap(0, 0, 0, 0), collateralUsd: new Decimal(100), margin: new Decimal(50) }],
+      ended: [{ ...createLeaderboardSnap(100000, 0, 0, 1000), collateralUsd: new Decimal(300), margin: new Decimal(150) }]
+    };
+
+    it('should cap counted volume at the turnover limit without changing fees', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        collateralWeighting: { maxTurnover: new Decimal(100) },
+        eligibility: { minTradeVolume: new Decimal(50000) }
+      };
+
+      const [result] = calculateUserPoints([createLeaderboard('user1', collateralized)], config, 1000, 1500, true, { explain: true });
+
+      expect(result.volume_usd.toNumber()).toBe(20000);
+      expect(result.fees_usd.toNumber()).toBe(200);
+      expect(result.realized_pnl_net_usd.toNumber()).toBe(800);
+      expect(result.explanation!.deltas.volume.toNumber()).toBe(100000);
+      expect(result.explanation!.categories.volume.metric.toNumber()).toBe(20000);
+      expect(result.explanation!.collateralWeighting!.averageCollateral.toNumber()).toBe(200);
+      expect(result.explanation!.collateralWeighting!.turnoverFactor.toNumber()).toBe(0.2);
+    });
+
+    it('should apply a multiplier curve over average collateral', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        collateralWeighting: {
+          curve: [
+            { collateral: new Decimal(1000), multiplier: new Decimal(1.5) },
+            { collateral: new Decimal(0), multiplier: new Decimal(0.5) }
+          ]
+        }
+      };
+
+      const [result] = calculateUserPoints([createLeaderboard('user1', collateralized)], config, 1000, 1500, true);
+
+      expect(result.volume_usd.toNumber()).toBe(70000);
+    });
+
+    it('should weight by margin when configured', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        collateralWeighting: {
+          source: 'margin',
+          curve: [
+            { collateral: new Decimal(0), multiplier: new Decimal(0.5) },
+            { collateral: new Decimal(1000), multiplier: new Decimal(1.5) }
+          ]
+        }
+      };
+
+      const [result] = calculateUserPoints([createLeaderboard('user1', collateralized)], config, 1000, 1500, true);
+
+      expect(result.volume_usd.toNumber()).toBe(60000);
+    });
+
+    it('should not cap volume without collateral when a turnover limit is set', () => {
+      const lead = createLeaderboard('user1', collateralized);
+      lead.start = [createLeaderboardSnap(0, 0, 0, 0)];
+      lead.ended = [createLeaderboardSnap(100000, 0, 0, 1000)];
+      const config: CalculationConfig = {
+        ...createConfig(),
+        collateralWeighting: { maxTurnover: new Decimal(100) }
+      };
+
+      const [result] = calculateUserPoints([lead], config, 1000, 1500, true);
+
+      expect(result.volume_usd.toNumber()).toBe(100000);
+      expect(result.realized_pnl_net_usd.toNumber()).toBe(800);
+    });
+
+    it('should apply a neutral curve multiplier without collateral', () => {
+      const lead = createLeaderboard('user1', collateralized);
+      lead.start = [createLeaderboardSnap(0, 0, 0, 0)];
+      lead.ended = [createLeaderboardSnap(100000, 0, 0, 1000)];
+      const config: CalculationConfig = {
+        ...createConfig(),
+        collateralWeighting: {
+          curve: [
+            { collateral: new Decimal(0), multiplier: new Decimal(0.5) },
+            { collateral: new Decimal(1000), multiplier: new Decimal(1.5) }
+          ]
+        }
+      };
+
+      const [result] = calculateUserPoints([lead], config, 1000, 1500, true, { explain: true });
+
+      expect(result.volume_usd.toNumber()).toBe(100000);
+      expect(result.explanation!.collateralWeighting!.curveMultiplier.toNumber()).toBe(1);
+    });
+  });
+
+  describe('loss carry-forward', () => {
+    const config: CalculationConfig = { ...createConfig(), lossCarryForward: true };
+
+    it('should accumulate losses into the balance', () => {
+      const [result] = calculateUserPoints([createLeaderboard('0xAAA', { netProfit: -10000 })], config, 1000, 1500, true, {
+        lossBalances: new Map([['0xaaa', new Decimal(500)]])
+      });
+
+      expect(result.realized_pnl_net_usd.toNumber()).toBe(0);
+      expect(result.loss_balance_usd!.toNumber()).toBe(10500);
+    });
+
+    it('should offset profits with the carried loss before granting points', () => {
+      const [partial, full] = calculateUserPoints(
+        [createLeaderboard('0xaaa', { netProfit: 10000 }), createLeaderboard('0xbbb', { netProfit: 10000 })],
+        config,
+        1000,
+        1500,
+        true,
+        {
+          explain: true,
+          lossBalances: new Map([
+            ['0xaaa', new Decimal(4000)],
+            ['0xbbb', new Decimal(10000)]
+          ])
+        }
+      );
+
+      expect(partial.realized_pnl_net_usd.toNumber()).toBe(6000);
+      expect(partial.loss_balance_usd!.toNumber()).toBe(0);
+      expect(partial.explanation!.deltas.netProfit.toNumber()).toBe(10000);
+      expect(partial.explanation!.lossCarryForward!.offset.toNumber()).toBe(4000);
+      expect(full.realized_pnl_net_usd.toNumber()).toBe(0);
+      expect(full.loss_balance_usd!.toNumber()).toBe(0);
+    });
+
+    it('should not change profit points when disabled', () => {
+      const [result] = calculateUserPoints([createLeaderboard('0xaaa', { netProfit: 10000 })], createConfig(), 1000, 1500, true, {
+        lossBalances: new Map([['0xaaa', new Decimal(4000)]])
+      });
+
+      expect(result.realized_pnl_net_usd.toNumber()).toBe(10000);
+      expect(result.loss_balance_usd).toBeUndefined();
+    });
+  });
+
+  describe('account lists and adjustments', () => {
+    const createTrader = (account: string, tradingVolume: number, referral?: string): PerpLeaderboard =>
+      createLeaderboard(account, {
+        tradingVolume,
+        ended: referral ? [{ ...createLeaderboardSnap(0, 0, 0, 0), referral }] : []
+      });
+    const adjustment = (account: string, points: number, epochBegin: number = 1000) => ({
+      account,
+      epochBegin,
+      epochEnded: 1500,
+      points: new Decimal(points),
+      author: 'ops',
+      note: 'compensation'
+    });
+
+    it('should zero excluded accounts and their referral rewards', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        referral: { levels: [new Decimal(0.1)] }
+      };
+
+      const results = calculateUserPoints(
+        [createTrader('0xteam', 1000, '0xref'), createTrader('0xref', 500, '0xteam')],
+        config,
+        1000,
+        1500,
+        true,
+        { accountLists: { exclude: [{ account: '0xTEAM', reason: 'TEAM_WALLET' }] } }
+      );
+
+      expect(results[0].volume_usd.toNumber()).toBe(0);
+      expect(results[0].referral_points.toNumber()).toBe(0);
+      expect(results[0].excluded_points.toNumber()).toBe(1050);
+      expect(results[0].exclusion!.reason).toBe('TEAM_WALLET');
+      expect(results[1].volume_usd.toNumber()).toBe(500);
+      expect(results[1].referral_points.toNumber()).toBe(0);
+    });
+
+    it('should reject a discount rate outside 0 to 1', () => {
+      const risk = [{ account: '0xaaa', score: 0.9, reasons: [] }];
+      const calculate = (discountRate: number) => calculateUserPoints(
+        [createTrader('0xaaa', 1000)],
+        { ...createConfig(), riskPolicy: { discountAtOrAbove: 0.5, discountRate: new Decimal(discountRate) } },
+        1000,
+        1500,
+        true,
+        { riskAssessments: risk }
+      );
+
+      expect(() => calculate(1.5)).toThrow('Discount rate 1.5 must be between 0 and 1');
+      expect(() => calculate(-0.1)).toThrow('must be between 0 and 1');
+      expect(calculate(1)[0].volume_usd.toNumber()).toBe(0);
+    });
+
+    it('should exempt allow-listed accounts from the risk policy', () => {
+      const config: CalculationConfig = { ...createConfig(), riskPolicy: { excludeAtOrAbove: 0.5 } };
+      const risk = (account: string) => ({ account, score: 0.9, reasons: [] });
+
+      const results = calculateUserPoints(
+        [createTrader('0xmm', 1000), createTrader('0xbot', 1000)],
+        config,
+        1000,
+        1500,
+        true,
+        {
+          riskAssessments: [risk('0xmm'), risk('0xbot')],
+          accountLists: { allow: [{ account: '0xmm', reason: 'MARKET_MAKER', note: 'contracted' }] }
+        }
+      );
+
+      expect(results[0].volume_usd.toNumber()).toBe(1000);
+      expect(results[0].risk!.score).toBe(0.9);
+      expect(results[0].allow_listed!.note).toBe('contracted');
+      expect(results[1].volume_usd.toNumber()).toBe(0);
+    });
+
+    it('should distribute the whole budget to the accounts that keep their points', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        budget: { amounts: { volume: new Decimal(1000) } },
+        riskPolicy: { excludeAtOrAbove: 0.5 }
+      };
+
+      const results = calculateUserPoints(
+        [createTrader('0xteam', 1000), createTrader('0xbot', 1000), createTrader('0xaaa', 300), createTrader('0xbbb', 100)],
+        config,
+        1000,
+        1500,
+        true,
+        {
+          accountLists: { exclude: [{ account: '0xTEAM', reason: 'TEAM_WALLET' }] },
+          riskAssessments: [{ account: '0xbot', score: 0.9, reasons: [] }]
+        }
+      );
+
+      expect(results.map(r => r.volume_usd.toNumber())).toEqual([0, 0, 750, 250]);
+      expect(results.reduce((sum, r) => sum.add(r.volume_usd), new Decimal(0)).toNumber()).toBe(1000);
+    });
+
+    it('should reject accounts on both lists', () => {
+      expect(() => calculateUserPoints([createTrader('0xaaa', 1000)], createConfig(), 1000, 1500, true, {
+        accountLists: {
+          exclude: [{ account: '0xaaa', reason: 'EXPLOIT' }],
+          allow: [{ account: '0xAAA', reason: 'PARTNER' }]
+        }
+      })).toThrow('0xaaa is on both the exclude and allow lists');
+    });
+
+    it('should record adjustments for the matching epoch separately', () => {
+      const results = calculateUserPoints(
+        [createTrader('0xaaa', 1000)],
+        createConfig(),
+        1000,
+        1500,
+        true,
+        {
+          adjustments: [
+            adjustment('0xAAA', 200),
+            adjustment('0xaaa', -50),
+            adjustment('0xaaa', 999, 0),
+            adjustment('0xnew', 300)
+          ]
+        }
+      );
+
+      expect(results).toHaveLength(2);
+      expect(results[0].volume_usd.toNumber()).toBe(1000);
+      expect(results[0].adjustment_points.toNumber()).toBe(150);
+      expect(results[0].adjustments).toHaveLength(2);
+      expect(results[1].account).toBe('0xnew');
+      expect(results[1].adjustment_points.toNumber()).toBe(300);
+    });
+  });
+
+  describe('loyalty multipliers', () => {
+    const config: CalculationConfig = {
+      ...createConfig(),
+      loyalty: {
+        schedule: [
+          { minStreak: 30, multiplier: new Decimal(1.25) },
+          { minStreak: 7, multiplier: new Decimal(1.1) }
+        ]
+      }
+    };
+
+    it('should extend streaks and apply the highest reached tier as a bonus', () => {
+      const results = calculateUserPoints(
+        [createLeaderboard('0xaaa', { tradingVolume: 1000 }), createLeaderboard('0xbbb', { tradingVolume: 1000 }), createLeaderboard('0xccc', { tradingVolume: 1000 })],
+        config,
+        1000,
+        1500,
+        true,
+        { previousStreaks: new Map([['0xaaa', 6], ['0xbbb', 29]]) }
+      );
+
+      expect(results.map(result => result.streak)).toEqual([7, 30, 1]);
+      expect(results[0].loyalty_bonus.toNumber()).toBe(100);
+      expect(results[0].volume_usd.toNumber()).toBe(1000);
+      expect(results[1].loyalty_multiplier.toNumber()).toBe(1.25);
+      expect(results[1].loyalty_bonus.toNumber()).toBe(250);
+      expect(results[2].loyalty_bonus.toNumber()).toBe(0);
+    });
+
+    it('should reset the streak of inactive accounts', () => {
+      const [result] = calculateUserPoints([createLeaderboard('0xaaa', { tradingVolume: 0 })], config, 1000, 1500, true, {
+        previousStreaks: new Map([['0xaaa', 10]])
+      });
+
+      expect(result.streak).toBe(0);
+      expect(result.loyalty_bonus.toNumber()).toBe(0);
+    });
+  });
+
+  describe('epoch window input', () => {
+    it('should accept an epoch window in place of start and stop', () => {
+      const lead = createLeaderboard('user1', {
+        tradingVolume: 1000,
+        netProfit: 50,
+        latestUpdateTimestamp: 1200,
+        liquidity: { account: 'user1', lp: new Decimal(1), start: [], ended: [createLiquiditySnap('1', 1, 0, 1000)] }
+      });
+
+      const fromWindow = calculateUserPoints([lead], createConfig(), { epochBegin: 1000, epochEnded: 1500 }, true, { explain: true });
+      const fromTimes = calculateUserPoints([lead], createConfig(), 1000, 1500, true, { explain: true });
+
+      expect(fromWindow).toEqual(fromTimes);
+    });
+  });
+
+  describe('fee model', () => {
+    const trading: LeaderboardOverrides = { tradingVolume: 10000, conditionTradeVolume: 2000, swap: 1000, netProfit: 500 };
+
+    it('should deduct 0.2% of trading volume by default', () => {
+      const results = calculateUserPoints(
+        [createLeaderboard('user1', trading)],
+        createConfig(),
+        1000,
+        1500,
+        false
+      );
+
+      expect(results[0].fees_usd.toNumber()).toBe(20);
+      expect(results[0].realized_pnl_net_usd.toNumber()).toBe(480);
+    });
+
+    it('should apply separate flat rates for condition orders and swaps', () => {
+      const config: CalculationConfig = {
+        ...createConfig(),
+        feeModel: {
+          type: 'flat',
+          rates: {
+            trade: new Decimal(0.001),
+            conditionTrade: new Decimal(0.002),
+            swap: new Decimal(0.003)
+          }
+        }
+      };
+
+      const results = calculateUserPoints([createLeaderboard('user1', trading)], config, 1000, 1500, false);
+
+      // 10000 * 0.001 + 2000 * 0.002 + 1000 * 0.003 = 17
+      expect(results[0].fees_usd.toNumber()).toBe(17);
+      expect(results[0].realized_pnl_net_usd.toNumber()).toBe(483);
+    });
+
+    it('should select the fee tier by trading volume', () => {
+      const model: FeeModel = {
+        type: 'tiered',
+        tiers: [
+          { minVolume: new Decimal(50000), rates: { trade: new Decimal(0.0005) } },
+          { minVolume: new Decimal(0), rates: { trade: new Decimal(0.002) } },
+          { minVolume: new Decimal(5000), rates: { trade: new Decimal(0.001) } }
+        ]
+      };
+      const volumes = (tradingVolume: number) => ({
+        tradingVolume: new Decimal(tradingVolume),
+        conditionTradeVolume: new Decimal(0),
+        swap: new Decimal(0)
+      });
+
+      expect(calculateFee(model, volumes(1000), 'user1').toNumber()).toBe(2);
+      expect(calculateFee(model, volumes(10000), 'user1').toNumber()).toBe(10);
+      expect(calculateFee(model, volumes(100000), 'user1').toNumber()).toBe(50);
+    });
+
+    it('should use a custom fee callback', () => {
+      const calculate = jest.fn().mockReturnValue(new Decimal(100));
+      const config: CalculationConfig = {
+        ...createConfig(),
+        feeModel: { type: 'custom', calculate }
+      };
+
+      const results = calculateUserPoints([createLeaderboard('user1', trading)], config, 1000, 1500, false);
+
+      expect(calculate).toHaveBeenCalledWith(
+        expect.objectContaining({ tradingVolume: new Decimal(10000) }),
+        'user1'
+      );
+      expect(results[0].fees_usd.toNumber()).toBe(100);
+      expect(results[0].realized_pnl_net_usd.toNumber()).toBe(400);
+    });
+
+    it('should reject a negative fee from a callback', () => {
+      const model: FeeModel = { type: 'custom', calculate: () => new Decimal(-1) };
+
+      expect(() => calculateFee(model, {
+        tradingVolume: new Decimal(1),
+        conditionTradeVolume: new Decimal(0),
+        swap: new Decimal(0)
+      }, 'user1')).toThrow('invalid fee');
+    });
+  });
+});
@@ -1,5 +1,11 @@
 import Decimal from 'decimal.js';
 import {json} from "node:stream/consumers";
+import { FeeModel, DEFAULT_FEE_MODEL, calculateFee } from './fee-model';
+import { RiskAssessment } from './risk';
+import { LoyaltyConfig, isActiveResult, selectLoyaltyMultiplier } from './loyalty';
+import { EpochWindow } from './epoch';
+import { AccountLists, AccountListEntry, Adjustment, indexAccountLists } from './adjustments';
+import { CollateralWeighting, CollateralWeightingBreakdown, applyCollateralWeighting } from './collateral-weighting';
 
 // 定义数据结构
 export interface PerpLiquiditySnap {
@@ -14,6 +20,7 @@ export interface PerpLiquidity {
   lp: Decimal;
   start: PerpLiquiditySnap[];
   ended: PerpLiquiditySnap[];
+  history?: PerpLiquiditySnap[];  // 时间段内的全部流动性快照（按时间升序），配置了流动性规则时必需
 }
 
 export interface PerpLeaderboardSnap {
@@ -21,6 +28,10 @@ export interface PerpLeaderboardSnap {
   conditionTradeVolume: Decimal;
   swap: Decimal;
   netProfit: Decimal;
+  referral?: string;  // 推荐人地址
+  tradedReferralsCount?: number;
+  collateralUsd?: Decimal;
+  margin?: Decimal;
 }
 
 export interface PerpLeaderboard {
@@ -35,11 +46,186 @@ export interface PerpLeaderboard {
   liquidity: PerpLiquidity;
 }
 
+// 点数类别
+export type PointCategory = 'liquidity' | 'volume' | 'profit' | 'conditionVolume' | 'swap';
+
+export const POINT_CATEGORIES: PointCategory[] = ['liquidity', 'volume', 'profit', 'conditionVolume', 'swap'];
+
+// 每个账户每个epoch的点数上限，未配置的类别不限
+export type PointCaps = Partial<Record<PointCategory | 'total', Decimal>>;
+
 // 配置类型
 export interface CalculationConfig {
   liquidityRate: Decimal;  // point/second
   tradeProfitRate: Decimal;
   tradeRate: Decimal;
+  conditionTradeRate?: Decimal;  // 条件单交易量点数费率，默认为0
+  swapRate?: Decimal;  // swap交易量点数费率，默认为0
+  feeModel?: FeeModel;  // 默认为交易量的0.2%
+  caps?: PointCaps;
+  budget?: BudgetConfig;  // 配置了预算的类别按比例分配预算，其余类别按费率计算
+  referral?: ReferralConfig;
+  extrapolation?: ExtrapolationMode;  // 临时结果的外推规则，默认为 'hold'
+  liquidityRules?: LiquidityRules;
+  riskPolicy?: RiskPolicy;  // 配合 options.riskAssessments 使用
+  eligibility?: EligibilityRules;
+  collateralWeighting?: CollateralWeighting;  // 按实际投入的抵押对交易量加权
+  lossCarryForward?: boolean;  // 往期累计亏损先抵扣盈利再计算利润点数，配合 options.lossBalances 使用
+  loyalty?: LoyaltyConfig;  // 连续活跃奖励倍数，配合 options.previousStreaks 使用
+}
+
+/**
+ * 参与资格：未达到门槛的类别不计点数（也不参与预算分配）
+ */
+export interface EligibilityRules {
+  minTradeVolume?: Decimal;  // 交易量低于该值时交易类点数（交易量、条件单、swap、利润）为0
+  minLiquidityIntegral?: Decimal;  // 流动性积分低于该值时流动性点数为0
+}
+
+/**
+ * 风险处理策略：风险分达到阈值的账户按比例扣减或清零点数
+ */
+export interface RiskPolicy {
+  excludeAtOrAbove?: number;  // 风险分达到该值时点数清零
+  discountAtOrAbove?: number;  // 风险分达到该值时按 discountRate 扣减点数
+  discountRate?: Decimal;  // 扣减比例，0~1
+}
+
+/**
+ * 防闪电流动性规则，需要时间段内的全部流动性快照（PerpLiquidity.history）
+ *
+ * - minHoldingSeconds: 每笔新增 LP 按后进先出与后续撤出配对，持有不足该时长的部分不计积分
+ * - minimumBalance: 只按时间段内持有的最小 LP 计算积分（优先于 minHoldingSeconds）
+ */
+export interface LiquidityRules {
+  minHoldingSeconds?: number;
+  minimumBalance?: boolean;
+}
+
+// 流动性积分中的一段持仓
+export interface LiquiditySegment {
+  from: number;
+  to: number;
+  lp: Decimal;
+  counted: boolean;  // 是否计入积分
+}
+
+/**
+ * 临时（provisional）结果的外推规则
+ *
+ * - hold: 假设最后一个流动性快照的 LP 持有到 stopTime，流动性积分计算到 stopTime
+ * - none: 不外推，流动性积分只计算到子图已索引的时间（options.indexedTimestamp）
+ *
+ * 交易量与利润只使用已发生的数据，任何模式下都不外推。
+ */
+export type ExtrapolationMode = 'hold' | 'none';
+
+// 单次计算的输入选项
+export interface CalculationOptions {
+  indexedTimestamp?: number;  // 子图已索引到的区块时间
+  explain?: boolean;  // 为每个账户附带计算过程
+  riskAssessments?: RiskAssessment[];  // 风险评分结果（见 risk.ts 的 scoreAccounts）
+  lossBalances?: Map<string, Decimal>;  // 各账户（小写地址）往期累计亏损（见 loss-carry-forward.ts）
+  accountLists?: AccountLists;  // 排除名单（点数清零）与豁免名单（不受风险策略影响）
+  adjustments?: Adjustment[];  // 人工调整记录，只应用与本次时间段完全一致的记录
+  previousStreaks?: Map<string, number>;  // 各账户（小写地址）截至上一个epoch的连续活跃次数（见 loyalty.ts）
+}
+
+// 推荐奖励配置：推荐人获得被推荐人交易点数的一定比例
+export interface ReferralConfig {
+  levels: Decimal[];  // 各级推荐人的分成比例，levels[0] 为直接推荐人
+  categories?: PointCategory[];  // 计入分成的点数类别，默认为交易类点数
+}
+
+export const DEFAULT_REFERRAL_CATEGORIES: PointCategory[] = ['volume', 'conditionVolume', 'swap'];
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// 固定预算模式：每个epoch按类别分配固定点数
+export interface BudgetConfig {
+  amounts: Partial<Record<PointCategory, Decimal>>;
+  decimals?: number;  // 分配精度（小数位数），默认6
+}
+
+export const DEFAULT_BUDGET_DECIMALS = 6;
+
+// 账户在时间段内的原始指标
+export interface AccountMetrics {
+  account: string;
+  liquidity: Decimal;  // 流动性积分（lp × 秒）
+  volume: Decimal;
+  conditionVolume: Decimal;
+  swap: Decimal;
+  grossProfit: Decimal;  // 扣除手续费前的净利润
+  profit: Decimal;  // 扣除手续费后的净利润
+  fees: Decimal;
+  liquidityBreakdown: LiquidityBreakdown | null;
+  collateralWeighting: CollateralWeightingBreakdown | null;  // 配置了抵押加权时，交易量等指标为加权后的值
+  lossCarryForward: LossCarryForward | null;  // 启用亏损结转时，profit 为抵扣后的净利润
+}
+
+// 亏损结转明细
+export interface LossCarryForward {
+  profit: Decimal;  // 抵扣前的净利润
+  balanceBefore: Decimal;  // 本期之前的累计亏损
+  offset: Decimal;  // 本期用于抵扣盈利的亏损
+  balanceAfter: Decimal;  // 本期之后的累计亏损
+}
+
+// 流动性积分明细
+export interface LiquidityBreakdown {
+  startSnap: PerpLiquiditySnap | null;
+  endSnap: PerpLiquiditySnap | null;
+  endBasePoints: Decimal;
+  endExtension: Decimal;  // 结束快照之后到结束时间的延伸：(endTime - endSnap.timestamp) × endSnap.lp
+  startBasePoints: Decimal;
+  startExtension: Decimal;  // 起始快照之后到起始时间的延伸：(startTime - startSnap.timestamp) × startSnap.lp
+  integral: Decimal;
+  segments?: LiquiditySegment[];  // 配置了流动性规则时，积分为计入的各段之和，上面的 basePoints 各项仅供对照
+}
+
+// 累计指标结束值的来源
+export type EndValueSource = 'live' | 'snapshot' | 'none';
+
+// 单个点数类别的计算过程
+export interface CategoryExplanation {
+  metric: Decimal;  // 计点指标（配置了抵押加权时为加权后的值）
+  rate?: Decimal;  // 按费率计算时的费率
+  budget?: Decimal;  // 按预算分配时的预算
+  clampedToZero: boolean;  // 原始指标为负而被截断为0
+  eligible: boolean;  // 是否满足参与资格
+  pointsBeforeCaps: Decimal;
+  points: Decimal;  // 应用上限、风险策略与排除名单之后的最终点数
+}
+
+// 单个账户的点数计算过程，可直接序列化保存
+export interface PointsExplanation {
+  account: string;
+  startTime: number;
+  stopTime: number;
+  liquidityStopTime: number;
+  provisional: boolean;
+  startSnap: PerpLeaderboardSnap | null;
+  endedSnap: PerpLeaderboardSnap | null;
+  endValueSource: EndValueSource;
+  liquidity: LiquidityBreakdown | null;
+  collateralWeighting: CollateralWeightingBreakdown | null;
+  lossCarryForward: LossCarryForward | null;
+  deltas: {
+    volume: Decimal;
+    conditionVolume: Decimal;
+    swap: Decimal;
+    grossProfit: Decimal;
+    fees: Decimal;
+    netProfit: Decimal;
+  };
+  categories: Record<PointCategory, CategoryExplanation>;
+  riskDeductedPoints: Decimal;  // 按风险策略扣减的点数
+  excludedPoints: Decimal;  // 因排除名单清零的点数（含推荐奖励）
+  referralPoints: Decimal;
+  loyaltyBonus: Decimal;
+  adjustmentPoints: Decimal;
+  totalPoints: Decimal;  // 各类别 points 之和 + 推荐奖励 + 连续活跃奖励 + 人工调整，即结果的总点数
 }
 
 // 计算结果类型
@@ -48,6 +234,132 @@ export interface UserPoints {
   lp_usd_hours: Decimal;
   volume_usd: Decimal;
   realized_pnl_net_usd: Decimal;
+  condition_volume_usd: Decimal;
+  swap_usd: Decimal;
+  fees_usd: Decimal;  // 计算净利润时扣除的手续费
+  capped_points: Record<PointCategory | 'total', Decimal>;  // 各上限截掉的点数
+  referral_points: Decimal;  // 推荐奖励点数
+  provisional: boolean;  // 子图尚未索引到 stopTime 时为 true，结果可能变化
+  explanation?: PointsExplanation;  // options.explain 时提供
+  risk?: RiskAssessment;  // 提供风险评分时附带
+  risk_deducted_points: Decimal;  // 按风险策略扣减的点数
+  loss_balance_usd?: Decimal;  // 启用亏损结转时提供：本期之后的累计亏损，保存后作为下一期的输入
+  exclusion?: AccountListEntry;  // 在排除名单中时附带
+  excluded_points: Decimal;  // 因排除名单清零的点数
+  allow_listed?: AccountListEntry;  // 在豁免名单中时附带
+  adjustment_points: Decimal;  // 人工调整点数合计，不计入各类别点数
+  adjustments: Adjustment[];  // 应用的人工调整记录
+  streak: number;  // 启用 loyalty 时，包含本期在内的连续活跃 epoch 数，本期不活跃为0
+  loyalty_multiplier: Decimal;
+  loyalty_bonus: Decimal;  // 连续活跃奖励点数：各类别点数合计 × (倍数 - 1)
+}
+
+type PointField = 'lp_usd_hours' | 'volume_usd' | 'realized_pnl_net_usd' | 'condition_volume_usd' | 'swap_usd';
+
+// 点数类别与结果字段的对应关系
+export const POINT_CATEGORY_FIELDS: Record<PointCategory, PointField> = {
+  liquidity: 'lp_usd_hours',
+  volume: 'volume_usd',
+  profit: 'realized_pnl_net_usd',
+  conditionVolume: 'condition_volume_usd',
+  swap: 'swap_usd'
+};
+
+type LeaderboardMetric = 'tradingVolume' | 'conditionTradeVolume' | 'swap' | 'netProfit';
+
+/**
+ * 确定结束值的来源：最新更新时间落在时间段内取当前累计值（live），
+ * 否则取 ended 快照（snapshot），两者都没有时为 none
+ */
+export function resolveEndValueSource(
+  lead: PerpLeaderboard,
+  startTime: number,
+  stopTime: number
+): EndValueSource {
+  if (lead.latestUpdateTimestamp >= startTime && lead.latestUpdateTimestamp <= stopTime) {
+    return 'live';
+  }
+  return lead.ended.length > 0 ? 'snapshot' : 'none';
+}
+
+/**
+ * 计算时间段内某个累计指标的增量
+ *
+ * 结束值取 ended 快照；若用户最新更新时间落在时间段内，则取当前累计值。
+ * 起始值取 start 快照（若存在）。
+ *
+ * @param lead 用户排行榜数据
+ * @param metric 累计指标字段
+ * @param startTime 时间段起始
+ * @param stopTime 时间段结束
+ * @returns 指标增量
+ */
+export function calculateSnapshotDelta(
+  lead: PerpLeaderboard,
+  metric: LeaderboardMetric,
+  startTime: number,
+  stopTime: number
+): Decimal {
+  let value = new Decimal(0);
+  const source = resolveEndValueSource(lead, startTime, stopTime);
+  if (source === 'snapshot') {
+    value = lead.ended[0][metric];
+  } else if (source === 'live') {
+    value = lead[metric];
+  }
+  if (lead.start.length > 0) {
+    value = value.sub(lead.start[0][metric]);
+  }
+  return value;
+}
+
+/**
+ * 计算流动性积分的组成部分
+ *
+ * 积分 = 结束快照 basePoints + 结束快照之后的延伸 - (起始快照 basePoints + 起始快照之后到 startTime 的延伸)
+ *
+ * @param liquidity 流动性数据
+ * @param startTime 时间段起始
+ * @param endTime 时间段结束
+ * @returns 流动性积分明细
+ */
+export function calculateLiquidityPointBreakdown(
+  liquidity: PerpLiquidity,
+  startTime: number,
+  endTime: number
+): LiquidityBreakdown {
+  const breakdown: LiquidityBreakdown = {
+    startSnap: liquidity.start[0] || null,
+    endSnap: liquidity.ended[0] || null,
+    endBasePoints: new Decimal(0),
+    endExtension: new Decimal(0),
+    startBasePoints: new Decimal(0),
+    startExtension: new Decimal(0),
+    integral: new Decimal(0)
+  };
+
+  // 如果无快照数据，返回0
+  const endSnap = breakdown.endSnap;
+  if (!endSnap) {
+    return breakdown;
+  }
+
+  breakdown.endBasePoints = endSnap.basePoints;
+  if (endSnap.timestamp < endTime) {
+    breakdown.endExtension = new Decimal(endTime - endSnap.timestamp).mul(endSnap.lp);
+  }
+  const startSnap = breakdown.startSnap;
+  if (startSnap) {
+    breakdown.startBasePoints = startSnap.basePoints;
+    if (startSnap.timestamp < startTime) {
+      breakdown.startExtension = new Decimal(startTime - startSnap.timestamp).mul(startSnap.lp);
+    }
+  }
+
+  breakdown.integral = breakdown.endBasePoints
+    .add(breakdown.endExtension)
+    .sub(breakdown.startBasePoints.add(breakdown.startExtension));
+  return breakdown;
 }
 
 /**
@@ -63,116 +375,847 @@ export function calculateLiquidityPointBase(
   startTime: number,
   endTime: number
 ): Decimal {
-  // 如果无快照数据，返回0
-  if (liquidity.ended.length === 0) {
+  return calculateLiquidityPointBreakdown(liquidity, startTime, endTime).integral;
+}
+
+/**
+ * 按全部流动性快照分段计算流动性积分，并应用防闪电流动性规则
+ *
+ * LP 在快照之间保持不变：startTime 时为 start 快照的 LP，之后每个 history 快照更新为该快照的 LP。
+ * 在时间段结束时仍持有、且持有时长不足 minHoldingSeconds 的 LP 不计积分。
+ *
+ * @param liquidity 流动性数据（需包含 history）
+ * @param startTime 时间段起始
+ * @param endTime 时间段结束
+ * @param rules 流动性规则
+ * @returns 积分及各段持仓
+ */
+export function calculatePiecewiseLiquidity(
+  liquidity: PerpLiquidity,
+  startTime: number,
+  endTime: number,
+  rules: LiquidityRules
+): { integral: Decimal; segments: LiquiditySegment[] } {
+  if (!liquidity.history) {
+    throw new Error(`Liquidity rules require the liquidity snapshot history for ${liquidity.account}`);
+  }
+
+  const startSnap = liquidity.start[0];
+  const events = liquidity.history
+    .filter(snap => snap.timestamp > startTime && snap.timestamp <= endTime)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (rules.minimumBalance) {
+    let minimum = startSnap ? startSnap.lp : new Decimal(0);
+    for (const snap of events) {
+      if (snap.timestamp < endTime) {
+        minimum = Decimal.min(minimum, snap.lp);
+      }
+    }
+    minimum = Decimal.max(minimum, 0);
+    const segment = { from: startTime, to: endTime, lp: minimum, counted: true };
+    return { integral: minimum.mul(Math.max(endTime - startTime, 0)), segments: [segment] };
+  }
+
+  // 按后进先出把每笔新增 LP 与后续撤出配对
+  const minHolding = rules.minHoldingSeconds || 0;
+  const layers: Array<{ amount: Decimal; since: number }> = [];
+  const segments: LiquiditySegment[] = [];
+  const close = (layer: { since: number }, amount: Decimal, to: number) => {
+    segments.push({
+      from: Math.max(layer.since, startTime),
+      to,
+      lp: amount,
+      counted: to - layer.since >= minHolding
+    });
+  };
+
+  let level = new Decimal(0);
+  if (startSnap && startSnap.lp.gt(0)) {
+    layers.push({ amount: startSnap.lp, since: startSnap.timestamp });
+    level = startSnap.lp;
+  }
+  for (const snap of events) {
+    const target = Decimal.max(snap.lp, 0);
+    if (target.gt(level)) {
+      layers.push({ amount: target.sub(level), since: snap.timestamp });
+    } else {
+      let remove = level.sub(target);
+      while (remove.gt(0) && layers.length > 0) {
+        const top = layers[layers.length - 1];
+        const taken = Decimal.min(top.amount, remove);
+        close(top, taken, snap.timestamp);
+        top.amount = top.amount.sub(taken);
+        remove = remove.sub(taken);
+        if (top.amount.isZero()) {
+          layers.pop();
+        }
+      }
+    }
+    level = target;
+  }
+  for (const layer of layers) {
+    close(layer, layer.amount, endTime);
+  }
+
+  const integral = segments
+    .filter(segment => segment.counted && segment.to > segment.from)
+    .reduce((sum, segment) => sum.add(segment.lp.mul(segment.to - segment.from)), new Decimal(0));
+  return { integral, segments };
+}
+
+/**
+ * 应用点数上限，并记录每个上限截掉的点数
+ *
+ * 先按类别截断，再按总上限等比例缩减各类别（最后一个非零类别取余数，保证总和恰好等于上限）。
+ *
+ * @param result 用户点数（原地修改）
+ * @param caps 点数上限
+ */
+export function applyPointCaps(result: UserPoints, caps: PointCaps): void {
+  for (const category of POINT_CATEGORIES) {
+    const cap = caps[category];
+    const field = POINT_CATEGORY_FIELDS[category];
+    if (cap && result[field].gt(cap)) {
+      result.capped_points[category] = result.capped_points[category].add(result[field].sub(cap));
+      result[field] = cap;
+    }
+  }
+
+  const totalCap = caps.total;
+  if (!totalCap) {
+    return;
+  }
+  const total = POINT_CATEGORIES.reduce(
+    (sum, category) => sum.add(result[POINT_CATEGORY_FIELDS[category]]),
+    new Decimal(0)
+  );
+  if (total.lte(totalCap)) {
+    return;
+  }
+
+  result.capped_points.total = total.sub(totalCap);
+  const nonZero = POINT_CATEGORIES.filter(category => !result[POINT_CATEGORY_FIELDS[category]].isZero());
+  let remaining = totalCap;
+  nonZero.forEach((category, index) => {
+    const field = POINT_CATEGORY_FIELDS[category];
+    const scaled = index === nonZero.length - 1
+      ? remaining
+      : result[field].mul(totalCap).div(total);
+    remaining = remaining.sub(scaled);
+    result[field] = scaled;
+  });
+}
+
+/**
+ * 计算单个账户在时间段内的原始指标（流动性积分、交易量增量、净利润等）
+ *
+ * @param lead 用户排行榜数据
+ * @param config 计算配置
+ * @param startTime 时间段起始
+ * @param stopTime 时间段结束
+ * @param liquidityStopTime 流动性积分的截止时间，默认为 stopTime
+ * @returns 账户原始指标
+ */
+export function calculateAccountMetrics(
+  lead: PerpLeaderboard,
+  config: CalculationConfig,
+  startTime: number,
+  stopTime: number,
+  liquidityStopTime: number = stopTime
+): AccountMetrics {
+  // ================== 计算流动性积分 ==================
+  let liquidity = new Decimal(0);
+  let liquidityBreakdown: LiquidityBreakdown | null = null;
+  if (lead.liquidity) {
+    liquidityBreakdown = calculateLiquidityPointBreakdown(
+      lead.liquidity,
+      startTime,
+      liquidityStopTime
+    );
+    if (config.liquidityRules) {
+      const piecewise = calculatePiecewiseLiquidity(lead.liquidity, startTime, liquidityStopTime, config.liquidityRules);
+      liquidityBreakdown.segments = piecewise.segments;
+      liquidityBreakdown.integral = piecewise.integral;
+    }
+    liquidity = liquidityBreakdown.integral;
+  }
+
+  // ================== 计算交易量 ==================
+  const volume = calculateSnapshotDelta(lead, 'tradingVolume', startTime, stopTime);
+  const conditionVolume = calculateSnapshotDelta(lead, 'conditionTradeVolume', startTime, stopTime);
+  const swap = calculateSnapshotDelta(lead, 'swap', startTime, stopTime);
+
+  // ================== 计算交易利润 ==================
+  // 减去Fees,由手续费模型计算
+  const fees = calculateFee(
+    config.feeModel || DEFAULT_FEE_MODEL,
+    {
+      tradingVolume: volume,
+      conditionTradeVolume: conditionVolume,
+      swap
+    },
+    lead.account
+  );
+  const grossProfit = calculateSnapshotDelta(lead, 'netProfit', startTime, stopTime);
+  const profit = grossProfit.sub(fees);
+
+  const metrics: AccountMetrics = {
+    account: lead.account,
+    liquidity,
+    volume,
+    conditionVolume,
+    swap,
+    grossProfit,
+    profit,
+    fees,
+    liquidityBreakdown,
+    collateralWeighting: null,
+    lossCarryForward: null
+  };
+
+  // ================== 按抵押加权 ==================
+  // 手续费按实际交易量计算，加权只影响计点的指标
+  if (config.collateralWeighting) {
+    const { weighted, breakdown } = applyCollateralWeighting(lead, metrics, config.collateralWeighting);
+    Object.assign(metrics, weighted);
+    metrics.collateralWeighting = breakdown;
+  }
+
+  return metrics;
+}
+
+/**
+ * 亏损结转：本期亏损累加到余额，本期盈利先用余额抵扣，抵扣后的净利润用于计算利润点数
+ *
+ * @param metric 账户原始指标，profit 会被替换为抵扣后的值
+ * @param balance 往期累计亏损（非负）
+ */
+export function applyLossCarryForward(metric: AccountMetrics, balance: Decimal): void {
+  if (balance.isNegative()) {
+    throw new Error(`Loss balance of ${metric.account} must be non-negative, got ${balance}`);
+  }
+  const profit = metric.profit;
+  let offset = new Decimal(0);
+  let balanceAfter = balance;
+  if (profit.isNegative()) {
+    balanceAfter = balance.add(profit.abs());
+  } else {
+    offset = Decimal.min(balance, profit);
+    balanceAfter = balance.sub(offset);
+  }
+
+  metric.profit = profit.sub(offset);
+  metric.lossCarryForward = { profit, balanceBefore: balance, offset, balanceAfter };
+}
+
+/**
+ * 创建点数全为0的用户点数结果
+ */
+export function createEmptyUserPoints(account: string): UserPoints {
+  return {
+    account,
+    lp_usd_hours: new Decimal(0),
+    volume_usd: new Decimal(0),
+    realized_pnl_net_usd: new Decimal(0),
+    condition_volume_usd: new Decimal(0),
+    swap_usd: new Decimal(0),
+    fees_usd: new Decimal(0),
+    capped_points: {
+      liquidity: new Decimal(0),
+      volume: new Decimal(0),
+      profit: new Decimal(0),
+      conditionVolume: new Decimal(0),
+      swap: new Decimal(0),
+      total: new Decimal(0)
+    },
+    referral_points: new Decimal(0),
+    provisional: false,
+    risk_deducted_points: new Decimal(0),
+    excluded_points: new Decimal(0),
+    adjustment_points: new Decimal(0),
+    adjustments: [],
+    streak: 0,
+    loyalty_multiplier: new Decimal(1),
+    loyalty_bonus: new Decimal(0)
+  };
+}
+
+/**
+ * 获取账户的推荐人（取最新快照中的 referral），无推荐人时返回 null
+ */
+export function getReferrer(lead: PerpLeaderboard): string | null {
+  const snap = lead.ended[0] || lead.start[0];
+  const referral = snap?.referral?.toLowerCase();
+  if (!referral || referral === ZERO_ADDRESS || referral === lead.account.toLowerCase()) {
+    return null;
+  }
+  return referral;
+}
+
+/**
+ * 计算推荐奖励点数
+ *
+ * 每个被推荐人的交易点数（上限之后）按 levels 逐级分给推荐链上的推荐人。
+ * 推荐链出现循环时在重复账户处停止，账户不会从自己或下级的交易中获得分成。
+ * 不在 results 中的推荐人会追加一条新的结果。
+ *
+ * @param leaderboards 子图查询结果
+ * @param results 用户点数结果（原地修改，可能追加推荐人）
+ * @param referral 推荐奖励配置
+ */
+export function applyReferralPoints(
+  leaderboards: PerpLeaderboard[],
+  results: UserPoints[],
+  referral: ReferralConfig
+): void {
+  const referrers = new Map<string, string>();
+  for (const lead of leaderboards) {
+    const referrer = getReferrer(lead);
+    if (referrer) {
+      referrers.set(lead.account.toLowerCase(), referrer);
+    }
+  }
+
+  const byAccount = new Map<string, UserPoints>();
+  for (const result of results) {
+    byAccount.set(result.account.toLowerCase(), result);
+  }
+
+  const categories = referral.categories || DEFAULT_REFERRAL_CATEGORIES;
+  const rewards = new Map<string, Decimal>();
+  for (const result of results) {
+    const tradingPoints = categories.reduce(
+      (sum, category) => sum.add(result[POINT_CATEGORY_FIELDS[category]]),
+      new Decimal(0)
+    );
+    if (tradingPoints.isZero()) continue;
+
+    const visited = new Set<string>([result.account.toLowerCase()]);
+    let current = referrers.get(result.account.toLowerCase());
+    for (const share of referral.levels) {
+      if (!current || visited.has(current)) break;
+      visited.add(current);
+      rewards.set(current, (rewards.get(current) || new Decimal(0)).add(tradingPoints.mul(share)));
+      current = referrers.get(current);
+    }
+  }
+
+  for (const [account, reward] of rewards) {
+    let result = byAccount.get(account);
+    if (!result) {
+      result = createEmptyUserPoints(account);
+      byAccount.set(account, result);
+      results.push(result);
+    }
+    result.referral_points = result.referral_points.add(reward);
+  }
+}
+
+/**
+ * 判断账户在某个类别是否满足参与资格
+ */
+export function isCategoryEligible(
+  metric: AccountMetrics,
+  category: PointCategory,
+  eligibility: EligibilityRules | undefined
+): boolean {
+  if (!eligibility) {
+    return true;
+  }
+  if (category === 'liquidity') {
+    return !eligibility.minLiquidityIntegral || metric.liquidity.gte(eligibility.minLiquidityIntegral);
+  }
+  // 门槛按实际交易量判断，不受抵押加权影响
+  const volume = metric.collateralWeighting?.unweighted.volume || metric.volume;
+  return !eligibility.minTradeVolume || volume.gte(eligibility.minTradeVolume);
+}
+
+/**
+ * 按费率计算某个类别的点数，负值截断为0（利润仅在为正时计点）
+ */
+function calculateRatePoints(metric: Decimal, rate: Decimal | undefined): Decimal {
+  if (!metric.gt(0)) {
     return new Decimal(0);
   }
+  const points = metric.mul(rate || 0);
+  // 确保非负
+  return points.isNegative() ? new Decimal(0) : points;
+}
 
-  const startSnap: PerpLiquiditySnap | null = liquidity.start[0];
-  const endSnap = liquidity.ended[0];
+/**
+ * 将固定预算按权重比例分配，保证分配总额恰好等于预算
+ *
+ * 每份先向下取整到 decimals 位小数，剩余的最小单位按小数部分从大到小逐个补足，
+ * 小数部分相同时按账户地址排序，结果与输入顺序无关。权重总和为0时不分配。
+ *
+ * @param budget 预算
+ * @param shares 账户及其权重（负权重按0计）
+ * @param decimals 分配精度（小数位数）
+ * @returns 与 shares 顺序一致的分配结果
+ */
+export function distributeBudget(
+  budget: Decimal,
+  shares: Array<{ account: string; weight: Decimal }>,
+  decimals: number = DEFAULT_BUDGET_DECIMALS
+): Decimal[] {
+  const unit = new Decimal(10).pow(-decimals);
+  const budgetUnits = budget.div(unit);
+  if (!budgetUnits.isInteger() || budget.isNegative()) {
+    throw new Error(`Budget ${budget} must be a non-negative multiple of ${unit}`);
+  }
 
-  let integral = endSnap.basePoints;
-  if (endSnap.timestamp < endTime) {
-    const delterPoint = new Decimal(endTime - endSnap.timestamp).mul(endSnap.lp)
-    integral = integral.add(delterPoint);
+  const weights = shares.map(share => Decimal.max(share.weight, 0));
+  const totalWeight = weights.reduce((sum, weight) => sum.add(weight), new Decimal(0));
+  if (totalWeight.isZero()) {
+    return shares.map(() => new Decimal(0));
   }
-  if (startSnap) {
-    let beforeBasePoints = startSnap.basePoints;
-    if (startSnap.timestamp < startTime) {
-      const delterPoint = new Decimal(startTime - startSnap.timestamp).mul(startSnap.lp)
-      beforeBasePoints = beforeBasePoints.add(delterPoint);
+
+  const exactUnits = weights.map(weight => budgetUnits.mul(weight).div(totalWeight));
+  const units = exactUnits.map(exact => exact.floor());
+  let remainder = budgetUnits.sub(units.reduce((sum, u) => sum.add(u), new Decimal(0))).toNumber();
+
+  const order = shares
+    .map((share, index) => ({ index, account: share.account, fraction: exactUnits[index].sub(units[index]) }))
+    .filter(entry => entry.fraction.gt(0))
+    .sort((a, b) => b.fraction.comparedTo(a.fraction) || (a.account < b.account ? -1 : a.account > b.account ? 1 : 0));
+  for (const entry of order) {
+    if (remainder <= 0) break;
+    units[entry.index] = units[entry.index].add(1);
+    remainder--;
+  }
+
+  return units.map(u => u.mul(unit));
+}
+
+/**
+ * 按风险策略扣减或清零点数
+ *
+ * @param result 用户点数（原地修改）
+ * @param assessment 账户风险评分
+ * @param policy 风险处理策略
+ */
+export function applyRiskPolicy(result: UserPoints, assessment: RiskAssessment, policy: RiskPolicy): void {
+  if (policy.discountRate && (policy.discountRate.isNegative() || policy.discountRate.gt(1))) {
+    throw new Error(`Discount rate ${policy.discountRate} must be between 0 and 1`);
+  }
+  result.risk = assessment;
+
+  let factor: Decimal | null = null;
+  if (policy.excludeAtOrAbove !== undefined && assessment.score >= policy.excludeAtOrAbove) {
+    factor = new Decimal(0);
+  } else if (policy.discountAtOrAbove !== undefined && assessment.score >= policy.discountAtOrAbove) {
+    factor = new Decimal(1).sub(policy.discountRate || 0);
+  }
+  if (!factor) {
+    return;
+  }
+
+  for (const category of POINT_CATEGORIES) {
+    const field = POINT_CATEGORY_FIELDS[category];
+    const discounted = result[field].mul(factor);
+    result.risk_deducted_points = result.risk_deducted_points.add(result[field].sub(discounted));
+    result[field] = discounted;
+  }
+}
+
+/**
+ * 排除账户：各类别点数与推荐奖励点数清零，清零的点数记入 excluded_points
+ */
+export function applyExclusion(result: UserPoints, entry: AccountListEntry): void {
+  result.exclusion = entry;
+  for (const category of POINT_CATEGORIES) {
+    const field = POINT_CATEGORY_FIELDS[category];
+    result.excluded_points = result.excluded_points.add(result[field]);
+    result[field] = new Decimal(0);
+  }
+  result.excluded_points = result.excluded_points.add(result.referral_points);
+  result.referral_points = new Decimal(0);
+}
+
+/**
+ * 应用人工调整：只应用时间段与本次计算完全一致的记录，不在 results 中的账户会追加一条新的结果
+ *
+ * @param results 用户点数结果（原地修改）
+ * @param adjustments 人工调整记录
+ * @param startTime 时间段起始
+ * @param stopTime 时间段结束
+ */
+export function applyAdjustments(
+  results: UserPoints[],
+  adjustments: Adjustment[],
+  startTime: number,
+  stopTime: number
+): void {
+  const byAccount = new Map<string, UserPoints>();
+  for (const result of results) {
+    byAccount.set(result.account.toLowerCase(), result);
+  }
+
+  for (const adjustment of adjustments) {
+    if (adjustment.epochBegin !== startTime || adjustment.epochEnded !== stopTime) continue;
+
+    const account = adjustment.account.toLowerCase();
+    let result = byAccount.get(account);
+    if (!result) {
+      result = createEmptyUserPoints(account);
+      byAccount.set(account, result);
+      results.push(result);
+    }
+    result.adjustment_points = result.adjustment_points.add(adjustment.points);
+    result.adjustments.push(adjustment);
+  }
+}
+
+/**
+ * 连续活跃奖励：本期活跃时连续次数加1，按倍数表计算奖励点数；不活跃时连续次数归零
+ *
+ * @param result 用户点数结果（原地修改）
+ * @param previousStreak 截至上一个epoch的连续活跃次数
+ * @param loyalty 连续活跃奖励配置
+ */
+export function applyLoyalty(result: UserPoints, previousStreak: number, loyalty: LoyaltyConfig): void {
+  if (!isActiveResult(result)) {
+    result.streak = 0;
+    return;
+  }
+  result.streak = previousStreak + 1;
+  result.loyalty_multiplier = selectLoyaltyMultiplier(loyalty.schedule, result.streak);
+
+  const basePoints = POINT_CATEGORIES.reduce(
+    (sum, category) => sum.add(result[POINT_CATEGORY_FIELDS[category]]),
+    new Decimal(0)
+  );
+  result.loyalty_bonus = basePoints.mul(result.loyalty_multiplier.sub(1));
+}
+
+/**
+ * 获取某个点数类别的费率
+ */
+export function getCategoryRate(config: CalculationConfig, category: PointCategory): Decimal | undefined {
+  switch (category) {
+    case 'liquidity':
+      return config.liquidityRate;
+    case 'volume':
+      return config.tradeRate;
+    case 'profit':
+      return config.tradeProfitRate;
+    case 'conditionVolume':
+      return config.conditionTradeRate;
+    case 'swap':
+      return config.swapRate;
+  }
+}
+
+/**
+ * 记录各类别当前的点数
+ */
+function snapshotCategoryPoints(result: UserPoints): Record<PointCategory, Decimal> {
+  const points = {} as Record<PointCategory, Decimal>;
+  for (const category of POINT_CATEGORIES) {
+    points[category] = result[POINT_CATEGORY_FIELDS[category]];
+  }
+  return points;
+}
+
+/**
+ * 生成单个账户的点数计算过程
+ *
+ * @param lead 用户排行榜数据
+ * @param metric 账户原始指标
+ * @param result 全部步骤完成后的用户点数
+ * @param pointsBeforeCaps 应用上限前各类别的点数
+ * @param config 计算配置
+ * @param window 计算时间段
+ * @returns 计算过程
+ */
+export function explainAccountPoints(
+  lead: PerpLeaderboard,
+  metric: AccountMetrics,
+  result: UserPoints,
+  pointsBeforeCaps: Record<PointCategory, Decimal>,
+  config: CalculationConfig,
+  window: { startTime: number; stopTime: number; liquidityStopTime: number; provisional: boolean }
+): PointsExplanation {
+  const categories = {} as Record<PointCategory, CategoryExplanation>;
+  let totalPoints = result.referral_points.add(result.loyalty_bonus).add(result.adjustment_points);
+  for (const category of POINT_CATEGORIES) {
+    const budget = config.budget?.amounts[category];
+    categories[category] = {
+      metric: metric[category],
+      rate: budget ? undefined : getCategoryRate(config, category) || new Decimal(0),
+      budget,
+      clampedToZero: metric[category].isNegative(),
+      eligible: isCategoryEligible(metric, category, config.eligibility),
+      pointsBeforeCaps: pointsBeforeCaps[category],
+      points: result[POINT_CATEGORY_FIELDS[category]]
+    };
+    totalPoints = totalPoints.add(result[POINT_CATEGORY_FIELDS[category]]);
+  }
+
+  return {
+    account: lead.account,
+    ...window,
+    startSnap: lead.start[0] || null,
+    endedSnap: lead.ended[0] || null,
+    endValueSource: resolveEndValueSource(lead, window.startTime, window.stopTime),
+    liquidity: metric.liquidityBreakdown,
+    collateralWeighting: metric.collateralWeighting,
+    lossCarryForward: metric.lossCarryForward,
+    deltas: {
+      volume: metric.collateralWeighting?.unweighted.volume || metric.volume,
+      conditionVolume: metric.collateralWeighting?.unweighted.conditionVolume || metric.conditionVolume,
+      swap: metric.collateralWeighting?.unweighted.swap || metric.swap,
+      grossProfit: metric.grossProfit,
+      fees: metric.fees,
+      netProfit: metric.lossCarryForward?.profit || metric.profit
+    },
+    categories,
+    riskDeductedPoints: result.risk_deducted_points,
+    excludedPoints: result.excluded_points,
+    referralPoints: result.referral_points,
+    loyaltyBonus: result.loyalty_bonus,
+    adjustmentPoints: result.adjustment_points,
+    totalPoints
+  };
+}
+
+/**
+ * 根据最终/临时模式确定流动性积分的截止时间
+ */
+function resolveLiquidityStopTime(
+  config: CalculationConfig,
+  stopTime: number,
+  overtime: boolean,
+  options: CalculationOptions
+): number {
+  const indexedTimestamp = options.indexedTimestamp;
+  if (overtime) {
+    if (indexedTimestamp !== undefined && indexedTimestamp < stopTime) {
+      throw new Error(`Final calculation requires data indexed past ${stopTime}, got ${indexedTimestamp}`);
     }
-    integral = integral.sub(beforeBasePoints);
+    return stopTime;
   }
 
-  return integral;
+  if ((config.extrapolation || 'hold') === 'hold') {
+    return stopTime;
+  }
+  if (indexedTimestamp === undefined) {
+    throw new Error("Extrapolation mode 'none' requires options.indexedTimestamp");
+  }
+  return Math.min(indexedTimestamp, stopTime);
 }
 
 /**
  * 主计算函数
+ *
+ * overtime 为 true 时是最终（final）结果：子图已索引超过 stopTime，所有数据均为实际发生的数据，
+ * 相同的（固定区块的）输入总能得到相同的结果。
+ * overtime 为 false 时是临时（provisional）结果：每个账户标记 provisional，
+ * 流动性积分按 config.extrapolation 规则外推，交易量与利润只计算已索引的部分。
  * 
+ * 时间段可以直接传入 epoch.ts 生成的 EpochWindow，代替 startTime 与 stopTime。
+ *
  * @param leaderboards 子图查询结果（已分页合并）
  * @param config 计算配置
- * @param timeContext 时间上下文
+ * @param startTime 起始时间戳
  * @param stopTime 结束时间戳
- * @param overtime 当前子图最新时间（系统时间）是否超过结束时间
+ * @param overtime 当前子图最新时间是否超过结束时间
+ * @param options 计算选项
  * @returns 用户点数计算结果
  */
+export function calculateUserPoints(
+  leaderboards: PerpLeaderboard[],
+  config: CalculationConfig,
+  window: EpochWindow,
+  overtime: boolean,
+  options?: CalculationOptions
+): UserPoints[];
 export function calculateUserPoints(
   leaderboards: PerpLeaderboard[],
   config: CalculationConfig,
   startTime: number,
   stopTime: number,
-  overtime: boolean
+  overtime: boolean,
+  options?: CalculationOptions
+): UserPoints[];
+export function calculateUserPoints(
+  leaderboards: PerpLeaderboard[],
+  config: CalculationConfig,
+  startTimeOrWindow: number | EpochWindow,
+  ...rest: [number, boolean, CalculationOptions?] | [boolean, CalculationOptions?]
 ): UserPoints[] {
-  return leaderboards.map(lead => {
+  if (typeof startTimeOrWindow === 'number') {
+    const [stopTime, overtime, options] = rest as [number, boolean, CalculationOptions?];
+    return calculateWindowPoints(leaderboards, config, startTimeOrWindow, stopTime, overtime, options);
+  }
+  const [overtime, options] = rest as [boolean, CalculationOptions?];
+  return calculateWindowPoints(
+    leaderboards,
+    config,
+    startTimeOrWindow.epochBegin,
+    startTimeOrWindow.epochEnded,
+    overtime,
+    options
+  );
+}
+
+function calculateWindowPoints(
+  leaderboards: PerpLeaderboard[],
+  config: CalculationConfig,
+  startTime: number,
+  stopTime: number,
+  overtime: boolean,
+  options: CalculationOptions = {}
+): UserPoints[] {
+  const liquidityStopTime = resolveLiquidityStopTime(config, stopTime, overtime, options);
+  const metrics = leaderboards.map(lead =>
+    calculateAccountMetrics(lead, config, startTime, stopTime, liquidityStopTime)
+  );
+
+  // ================== 亏损结转 ==================
+  if (config.lossCarryForward) {
+    for (const metric of metrics) {
+      applyLossCarryForward(metric, options.lossBalances?.get(metric.account.toLowerCase()) || new Decimal(0));
+    }
+  }
+
+  const results = metrics.map(metric => {
     // 初始化用户点数
-    const result: UserPoints = {
-      account: lead.account,
-      lp_usd_hours: new Decimal(0),
-      volume_usd: new Decimal(0),
-      realized_pnl_net_usd: new Decimal(0)
-    };
+    const result = createEmptyUserPoints(metric.account);
+    result.fees_usd = metric.fees;
+    if (metric.lossCarryForward) {
+      result.loss_balance_usd = metric.lossCarryForward.balanceAfter;
+    }
 
-    // ================== 计算流动性点数 ==================
-    if (lead.liquidity) {
-      const baseIntegral = calculateLiquidityPointBase(
-        lead.liquidity,
-        startTime,
-        stopTime
-      );
-      
-      const liquidityPoint = baseIntegral.mul(config.liquidityRate);
-      // 确保非负
-      result.lp_usd_hours = liquidityPoint.isNegative() 
-        ? new Decimal(0) 
-        : liquidityPoint;
-    }
-
-    // ================== 计算交易点数 ==================
-    let tradeVolume = new Decimal(0);
-    if (lead.ended.length > 0) {
-      tradeVolume = lead.ended[0].tradingVolume;
-    }
-    if (lead.latestUpdateTimestamp >= startTime && lead.latestUpdateTimestamp <= stopTime) {
-        tradeVolume = lead.tradingVolume
-    }
-    
-    // 处理起始快照
-    if (lead.start.length > 0) {
-      tradeVolume = tradeVolume.sub(lead.start[0].tradingVolume);
-    }
-    const tradePoint = tradeVolume.mul(config.tradeRate); 
-    // 确保非负
-    result.volume_usd = tradePoint.isNegative() ? new Decimal(0) : tradePoint;
-
-    // ================== 计算交易利润点数 ==================
-    let netProfit = new Decimal(0);
-    if (lead.ended.length > 0) {
-      netProfit = lead.ended[0].netProfit;
-    }
-    if (lead.latestUpdateTimestamp >= startTime && lead.latestUpdateTimestamp <= stopTime) {
-        netProfit = lead.netProfit
-    }
-    
-    // 处理起始快照
-    if (lead.start.length > 0) {
-      netProfit = netProfit.sub(lead.start[0].netProfit);
-    }
-    // 减去Fees,固定为交易量的0.2%
-    netProfit = netProfit.sub(tradeVolume.times(new Decimal(0.002)));
-    
-    
-    let tradeProfitPoint = new Decimal(0);
-    if (netProfit.gt(0)) {
-      tradeProfitPoint = netProfit.mul(config.tradeProfitRate);
-    }
-    
-    // 确保非负
-    result.realized_pnl_net_usd = tradeProfitPoint.isNegative() 
-      ? new Decimal(0) 
-      : tradeProfitPoint;
+    // ================== 按费率计算点数 ==================
+    for (const category of POINT_CATEGORIES) {
+      if (isCategoryEligible(metric, category, config.eligibility)) {
+        result[POINT_CATEGORY_FIELDS[category]] = calculateRatePoints(metric[category], getCategoryRate(config, category));
+      }
+    }
 
     return result;
   });
-}
\ No newline at end of file
+
+  const { excluded, allowed } = indexAccountLists(options.accountLists || {});
+  const assessments = new Map((options.riskAssessments || []).map(assessment => [assessment.account.toLowerCase(), assessment]));
+
+  // ================== 按固定预算分配点数 ==================
+  // 被排除或将被风险策略清零的账户不参与分配，预算全部分给其余账户
+  if (config.budget) {
+    const forfeitsBudget = (account: string): boolean => {
+      const key = account.toLowerCase();
+      if (excluded.has(key)) {
+        return true;
+      }
+      const assessment = assessments.get(key);
+      const excludeAtOrAbove = config.riskPolicy?.excludeAtOrAbove;
+      return !!assessment && !allowed.has(key) && excludeAtOrAbove !== undefined && assessment.score >= excludeAtOrAbove;
+    };
+
+    for (const category of POINT_CATEGORIES) {
+      const amount = config.budget.amounts[category];
+      if (!amount) continue;
+
+      const field = POINT_CATEGORY_FIELDS[category];
+      const allocations = distributeBudget(
+        amount,
+        metrics.map(metric => ({
+          account: metric.account,
+          weight: isCategoryEligible(metric, category, config.eligibility) && !forfeitsBudget(metric.account)
+            ? metric[category]
+            : new Decimal(0)
+        })),
+        config.budget.decimals
+      );
+      allocations.forEach((allocation, index) => {
+        results[index][field] = allocation;
+      });
+    }
+  }
+
+  const pointsBeforeCaps = options.explain ? results.map(snapshotCategoryPoints) : [];
+
+  // ================== 应用点数上限 ==================
+  if (config.caps) {
+    for (const result of results) {
+      applyPointCaps(result, config.caps);
+    }
+  }
+
+  for (const result of results) {
+    const entry = allowed.get(result.account.toLowerCase());
+    if (entry) {
+      result.allow_listed = entry;
+    }
+  }
+
+  // ================== 应用风险策略 ==================
+  // 豁免名单中的账户只附带评分，不扣减点数
+  if (options.riskAssessments) {
+    for (const result of results) {
+      const assessment = assessments.get(result.account.toLowerCase());
+      if (!assessment) continue;
+      if (result.allow_listed) {
+        result.risk = assessment;
+      } else {
+        applyRiskPolicy(result, assessment, config.riskPolicy || {});
+      }
+    }
+  }
+
+  // ================== 应用排除名单 ==================
+  // 推荐奖励之前清零，被排除账户不为推荐人带来分成；之后再清零其自身获得的推荐奖励
+  const applyExclusions = () => {
+    for (const result of results) {
+      const entry = excluded.get(result.account.toLowerCase());
+      if (entry) {
+        applyExclusion(result, entry);
+      }
+    }
+  };
+  applyExclusions();
+
+  // ================== 计算推荐奖励点数 ==================
+  if (config.referral) {
+    applyReferralPoints(leaderboards, results, config.referral);
+    applyExclusions();
+  }
+
+  // ================== 计算连续活跃奖励 ==================
+  // 被排除或风险清零的账户没有点数，视为不活跃
+  if (config.loyalty) {
+    for (const result of results) {
+      const previousStreak = options.previousStreaks?.get(result.account.toLowerCase()) || 0;
+      applyLoyalty(result, previousStreak, config.loyalty);
+    }
+  }
+
+  // ================== 应用人工调整 ==================
+  if (options.adjustments) {
+    applyAdjustments(results, options.adjustments, startTime, stopTime);
+  }
+
+  // ================== 生成计算过程 ==================
+  // 在最后一步之后生成，各项与结果一致；人工调整追加的账户没有排行榜数据，不生成
+  if (options.explain) {
+    leaderboards.forEach((lead, index) => {
+      const result = results[index];
+      result.explanation = explainAccountPoints(
+        lead,
+        metrics[index],
+        result,
+        pointsBeforeCaps[index],
+        config,
+        { startTime, stopTime, liquidityStopTime, provisional: !overtime }
+      );
+    });
+  }
+
+  for (const result of results) {
+    result.provisional = !overtime;
+  }
+
+  return results;
+}
@@ -0,0 +1,85 @@
+import Decimal from 'decimal.js';
+import { createEmptyUserPoints, UserPoints } from './index';
+import { buildLeaderboard, buildSeasonLeaderboard, getTotalPoints } from './leaderboard';
+
+describe('Leaderboard', () => {
+  const createResult = (account: string, volumePoints: string): UserPoints => ({
+    ...createEmptyUserPoints(account),
+    volume_usd: new Decimal(volumePoints)
+  });
+
+  it('should total category points, bonuses and adjustments', () => {
+    const result: UserPoints = {
+      ...createResult('0xaaa', '100'),
+      lp_usd_hours: new Decimal(10),
+      referral_points: new Decimal(5),
+      loyalty_bonus: new Decimal(11),
+      adjustment_points: new Decimal(-6)
+    };
+
+    expect(getTotalPoints(result).toNumber()).toBe(120);
+  });
+
+  it('should share ranks between ties and order them by account', () => {
+    const entries = buildLeaderboard([
+      createResult('0xccc', '50'),
+      createResult('0xbbb', '100'),
+      createResult('0xddd', '50'),
+      createResult('0xaaa', '100'),
+      createResult('0xeee', '0')
+    ]);
+
+    expect(entries.map(entry => [entry.account, entry.rank])).toEqual([
+      ['0xaaa', 1],
+      ['0xbbb', 1],
+      ['0xccc', 3],
+      ['0xddd', 3]
+    ]);
+    expect(entries.map(entry => entry.percentile)).toEqual([50, 50, 0, 0]);
+  });
+
+  it('should distinguish totals that only differ beyond double precision', () => {
+    const entries = buildLeaderboard([
+      createResult('0xaaa', '1.0000000000000000001'),
+      createResult('0xbbb', '1.0000000000000000002')
+    ]);
+
+    expect(entries.map(entry => [entry.account, entry.rank])).toEqual([['0xbbb', 1], ['0xaaa', 2]]);
+  });
+
+  it('should assign tiers by percentile and threshold', () => {
+    const results = ['100', '90', '80', '70', '60', '50', '40', '30', '20', '10']
+      .map((points, index) => createResult(`0x${index}`, points));
+
+    const entries = buildLeaderboard(results, {
+      tiers: [
+        { name: 'Gold', minPercentile: 80 },
+        { name: 'Silver', minPercentile: 50 },
+        { name: 'Bronze', minPoints: new Decimal(20) }
+      ]
+    });
+
+    expect(entries.map(entry => entry.tier)).toEqual([
+      'Gold', 'Gold', 'Silver', 'Silver', 'Silver', 'Bronze', 'Bronze', 'Bronze', 'Bronze', null
+    ]);
+  });
+
+  it('should rank zero-point accounts when requested', () => {
+    const entries = buildLeaderboard([createResult('0xaaa', '0')], { includeZeroPoints: true });
+
+    expect(entries).toHaveLength(1);
+    expect(entries[0].rank).toBe(1);
+  });
+
+  it('should sum epochs season-to-date', () => {
+    const entries = buildSeasonLeaderboard([
+      [createResult('0xAAA', '10'), createResult('0xbbb', '30')],
+      [createResult('0xaaa', '25')]
+    ]);
+
+    expect(entries.map(entry => [entry.account, entry.totalPoints.toNumber(), entry.epochs])).toEqual([
+      ['0xaaa', 35, 2],
+      ['0xbbb', 30, 1]
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import Decimal from 'decimal.js';
+import { UserPoints, POINT_CATEGORIES, POINT_CATEGORY_FIELDS } from './index';
+
+/**
+ * Ranked leaderboards over calculated points, per epoch or season-to-date
+ *
+ * Ranks use competition ranking on Decimal totals: tied accounts share a rank and the
+ * next rank skips accordingly (1, 1, 3). Tied accounts are listed by address so the
+ * order is stable across runs.
+ */
+
+export interface LeaderboardTier {
+  name: string;
+  minPercentile?: number;  // Percentile (0-100) the account must reach
+  minPoints?: Decimal;     // Total points the account must reach
+}
+
+export interface LeaderboardOptions {
+  tiers?: LeaderboardTier[];     // Checked in order; the first match applies
+  includeZeroPoints?: boolean;   // Rank accounts without points, default false
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  account: string;
+  totalPoints: Decimal;
+  percentile: number;     // Share of ranked accounts with fewer points, 0-100
+  tier: string | null;
+  epochs: number;         // Epochs the total is made of
+}
+
+/**
+ * Total points of a result: category points, referral and loyalty bonuses and manual adjustments
+ */
+export function getTotalPoints(result: UserPoints): Decimal {
+  return POINT_CATEGORIES
+    .reduce((sum, category) => sum.add(result[POINT_CATEGORY_FIELDS[category]]), new Decimal(0))
+    .add(result.referral_points)
+    .add(result.loyalty_bonus)
+    .add(result.adjustment_points);
+}
+
+function selectTier(tiers: LeaderboardTier[], totalPoints: Decimal, percentile: number): string | null {
+  const tier = tiers.find(candidate =>
+    (candidate.minPercentile === undefined || percentile >= candidate.minPercentile)
+    && (!candidate.minPoints || totalPoints.gte(candidate.minPoints))
+  );
+  return tier ? tier.name : null;
+}
+
+/**
+ * Rank per-account totals
+ */
+function rankTotals(
+  totals: Array<{ account: string; totalPoints: Decimal; epochs: number }>,
+  options: LeaderboardOptions
+): LeaderboardEntry[] {
+  const ranked = totals
+    .filter(total => options.includeZeroPoints || total.totalPoints.gt(0))
+    .sort((a, b) => b.totalPoints.comparedTo(a.totalPoints) || (a.account < b.account ? -1 : a.account > b.account ? 1 : 0));
+
+  const count = ranked.length;
+  const entries: LeaderboardEntry[] = [];
+  let index = 0;
+  while (index < count) {
+    // Accounts in [index, groupEnd) share the same total
+    let groupEnd = index + 1;
+    while (groupEnd < count && ranked[groupEnd].totalPoints.eq(ranked[index].totalPoints)) {
+      groupEnd++;
+    }
+    const percentile = Math.round(((count - groupEnd) / count) * 100 * 1e4) / 1e4;
+    for (let i = index; i < groupEnd; i++) {
+      entries.push({
+        rank: index + 1,
+        account: ranked[i].account,
+        totalPoints: ranked[i].totalPoints,
+        percentile,
+        tier: selectTier(options.tiers || [], ranked[i].totalPoints, percentile),
+        epochs: ranked[i].epochs
+      });
+    }
+    index = groupEnd;
+  }
+  return entries;
+}
+
+/**
+ * Build the leaderboard of one epoch
+ */
+export function buildLeaderboard(results: UserPoints[], options: LeaderboardOptions = {}): LeaderboardEntry[] {
+  return buildSeasonLeaderboard([results], options);
+}
+
+/**
+ * Build a season-to-date leaderboard by summing each account's totals over epochs.
+ * Accounts are matched case-insensitively and reported in lowercase.
+ */
+export function buildSeasonLeaderboard(
+  epochs: UserPoints[][],
+  options: LeaderboardOptions = {}
+): LeaderboardEntry[] {
+  const totals = new Map<string, { account: string; totalPoints: Decimal; epochs: number }>();
+  for (const results of epochs) {
+    for (const result of results) {
+      const account = result.account.toLowerCase();
+      const total = totals.get(account) || { account, totalPoints: new Decimal(0), epochs: 0 };
+      total.totalPoints = total.totalPoints.add(getTotalPoints(result));
+      total.epochs++;
+      totals.set(account, total);
+    }
+  }
+  return rankTotals([...totals.values()], options);
+}
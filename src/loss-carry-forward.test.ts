@@ -0,0 +1,75 @@
+import Decimal from 'decimal.js';
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { createEmptyUserPoints, UserPoints } from './index';
+import {
+  createLossBalanceStore,
+  applyEpochLossBalances,
+  getLossBalances,
+  loadLossBalanceStore,
+  saveLossBalanceStore,
+  parseLossBalanceStore
+} from './loss-carry-forward';
+
+describe('Loss Balance Store', () => {
+  const createResult = (account: string, balance: number): UserPoints => ({
+    ...createEmptyUserPoints(account),
+    loss_balance_usd: new Decimal(balance)
+  });
+
+  it('should record balances and keep accounts absent from the epoch', () => {
+    const first = applyEpochLossBalances(
+      createLossBalanceStore(),
+      [createResult('0xAAA', 100), createResult('0xbbb', 50)],
+      1999
+    );
+    const second = applyEpochLossBalances(first, [createResult('0xaaa', 0)], 2999);
+
+    expect(second.lastEpochEnded).toBe(2999);
+    expect(second.balances).toEqual({ '0xbbb': '50' });
+    expect(getLossBalances(first).get('0xaaa')!.toNumber()).toBe(100);
+  });
+
+  it('should keep the balance of results that did not go through carry-forward', () => {
+    const store = applyEpochLossBalances(createLossBalanceStore(), [createResult('0xaaa', 100)], 1999);
+
+    const next = applyEpochLossBalances(store, [createEmptyUserPoints('0xaaa')], 2999);
+
+    expect(next.balances).toEqual({ '0xaaa': '100' });
+  });
+
+  it('should reject re-applying the same or an older epoch', () => {
+    const store = applyEpochLossBalances(createLossBalanceStore(), [createResult('0xaaa', 100)], 1999);
+
+    expect(() => applyEpochLossBalances(store, [], 1999)).toThrow('already applied');
+    expect(() => applyEpochLossBalances(store, [], 999)).toThrow('already applied');
+  });
+
+  it('should reject provisional results', () => {
+    const result = { ...createResult('0xaaa', 100), provisional: true };
+
+    expect(() => applyEpochLossBalances(createLossBalanceStore(), [result], 1999))
+      .toThrow('Only final results');
+  });
+
+  it('should reject negative balances', () => {
+    expect(() => parseLossBalanceStore({ version: 1, lastEpochEnded: null, balances: { '0xaaa': '-1' } }))
+      .toThrow('must be non-negative');
+  });
+
+  it('should round-trip through a file and start empty when missing', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'loss-balances-'));
+    const file = path.join(dir, 'balances.json');
+    try {
+      expect(await loadLossBalanceStore(file)).toEqual(createLossBalanceStore());
+
+      const store = applyEpochLossBalances(createLossBalanceStore(), [createResult('0xaaa', 12.5)], 1999);
+      await saveLossBalanceStore(file, store);
+
+      expect(await loadLossBalanceStore(file)).toEqual(store);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
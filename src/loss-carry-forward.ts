@@ -0,0 +1,132 @@
+import Decimal from 'decimal.js';
+import { readFile, writeFile, rename } from 'fs/promises';
+import type { UserPoints } from './index';
+
+/**
+ * Persisted per-account loss balances for profit loss carry-forward
+ *
+ * The store records the end of the last epoch whose final results were applied, so
+ * that an epoch cannot be applied twice or out of order. Balances are kept as decimal
+ * strings keyed by lowercase account address.
+ */
+
+export const LOSS_BALANCE_STORE_VERSION = 1;
+
+export interface LossBalanceStore {
+  version: number;
+  lastEpochEnded: number | null;
+  balances: Record<string, string>;
+}
+
+export function createLossBalanceStore(): LossBalanceStore {
+  return {
+    version: LOSS_BALANCE_STORE_VERSION,
+    lastEpochEnded: null,
+    balances: {}
+  };
+}
+
+/**
+ * Validate a loss balance store read from JSON
+ */
+export function parseLossBalanceStore(raw: unknown): LossBalanceStore {
+  const store = raw as LossBalanceStore;
+  if (!store || typeof store !== 'object') {
+    throw new Error('Loss balance store must be an object');
+  }
+  if (store.version !== LOSS_BALANCE_STORE_VERSION) {
+    throw new Error(`Unsupported loss balance store version ${store.version}, expected ${LOSS_BALANCE_STORE_VERSION}`);
+  }
+  if (store.lastEpochEnded !== null && !Number.isInteger(store.lastEpochEnded)) {
+    throw new Error('Loss balance store lastEpochEnded must be a unix timestamp or null');
+  }
+  for (const [account, balance] of Object.entries(store.balances || {})) {
+    let parsed: Decimal;
+    try {
+      parsed = new Decimal(balance);
+    } catch {
+      throw new Error(`Loss balance of ${account} is not a valid number: ${balance}`);
+    }
+    if (!parsed.isFinite() || parsed.isNegative()) {
+      throw new Error(`Loss balance of ${account} must be non-negative: ${balance}`);
+    }
+  }
+  return {
+    version: store.version,
+    lastEpochEnded: store.lastEpochEnded,
+    balances: { ...store.balances }
+  };
+}
+
+/**
+ * Load the store from disk; a missing file yields an empty store
+ */
+export async function loadLossBalanceStore(path: string): Promise<LossBalanceStore> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return createLossBalanceStore();
+    }
+    throw error;
+  }
+  return parseLossBalanceStore(JSON.parse(content));
+}
+
+/**
+ * Write the store to disk, replacing the previous file atomically
+ */
+export async function saveLossBalanceStore(path: string, store: LossBalanceStore): Promise<void> {
+  const tempPath = `${path}.tmp`;
+  await writeFile(tempPath, JSON.stringify(store, null, 2) + '\n', 'utf8');
+  await rename(tempPath, path);
+}
+
+/**
+ * Balances in the form expected by CalculationOptions.lossBalances
+ */
+export function getLossBalances(store: LossBalanceStore): Map<string, Decimal> {
+  return new Map(
+    Object.entries(store.balances).map(([account, balance]) => [account.toLowerCase(), new Decimal(balance)])
+  );
+}
+
+/**
+ * Record the balances produced by an epoch's final results
+ *
+ * @param store Store holding the balances the results were calculated from
+ * @param results Final results calculated with lossCarryForward enabled
+ * @param epochEnded End of the epoch the results cover
+ * @returns A new store; accounts absent from the results, or whose result did not go
+ *          through carry-forward (no loss_balance_usd), keep their balance
+ */
+export function applyEpochLossBalances(
+  store: LossBalanceStore,
+  results: UserPoints[],
+  epochEnded: number
+): LossBalanceStore {
+  if (store.lastEpochEnded !== null && epochEnded <= store.lastEpochEnded) {
+    throw new Error(`Epoch ending ${epochEnded} was already applied, last applied epoch ended ${store.lastEpochEnded}`);
+  }
+  if (results.some(result => result.provisional)) {
+    throw new Error('Only final results can update loss balances');
+  }
+
+  const balances = { ...store.balances };
+  for (const result of results) {
+    if (!result.loss_balance_usd) continue;
+    const account = result.account.toLowerCase();
+    if (result.loss_balance_usd.isZero()) {
+      delete balances[account];
+    } else {
+      balances[account] = result.loss_balance_usd.toString();
+    }
+  }
+
+  return {
+    version: store.version,
+    lastEpochEnded: epochEnded,
+    balances
+  };
+}
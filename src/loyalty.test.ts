@@ -0,0 +1,67 @@
+import Decimal from 'decimal.js';
+import { createEmptyUserPoints, UserPoints } from './index';
+import {
+  applyEpochStreaks,
+  buildStreakStore,
+  createStreakStore,
+  getPreviousStreaks,
+  parseStreakStore,
+  selectLoyaltyMultiplier
+} from './loyalty';
+
+describe('Loyalty Streaks', () => {
+  const createResult = (account: string, volumePoints: number, streak: number = 0): UserPoints => ({
+    ...createEmptyUserPoints(account),
+    volume_usd: new Decimal(volumePoints),
+    streak
+  });
+
+  it('should select the multiplier of the highest tier reached', () => {
+    const schedule = [
+      { minStreak: 7, multiplier: new Decimal(1.1) },
+      { minStreak: 30, multiplier: new Decimal(1.25) }
+    ];
+
+    expect(selectLoyaltyMultiplier(schedule, 6).toNumber()).toBe(1);
+    expect(selectLoyaltyMultiplier(schedule, 7).toNumber()).toBe(1.1);
+    expect(selectLoyaltyMultiplier(schedule, 45).toNumber()).toBe(1.25);
+  });
+
+  it('should rebuild streaks from historical results', () => {
+    const store = buildStreakStore([
+      { epochBegin: 0, epochEnded: 99, results: [createResult('0xAAA', 10), createResult('0xbbb', 10)] },
+      { epochBegin: 100, epochEnded: 199, results: [createResult('0xaaa', 10), createResult('0xbbb', 0)] },
+      { epochBegin: 200, epochEnded: 299, results: [createResult('0xaaa', 10), createResult('0xbbb', 10)] }
+    ]);
+
+    expect(store.lastEpochEnded).toBe(299);
+    expect(store.streaks).toEqual({ '0xaaa': 3, '0xbbb': 1 });
+  });
+
+  it('should record the streaks of active accounts only', () => {
+    const store = applyEpochStreaks(createStreakStore(), {
+      epochBegin: 0,
+      epochEnded: 99,
+      results: [createResult('0xaaa', 10, 4), createResult('0xbbb', 0, 0)]
+    });
+
+    expect(store.streaks).toEqual({ '0xaaa': 4 });
+    expect(getPreviousStreaks(store, 100).get('0xaaa')).toBe(4);
+  });
+
+  it('should reject epochs that do not follow the last applied one', () => {
+    const store = applyEpochStreaks(createStreakStore(), { epochBegin: 0, epochEnded: 99, results: [] });
+
+    expect(() => getPreviousStreaks(store, 200)).toThrow('does not follow');
+    expect(() => applyEpochStreaks(store, { epochBegin: 0, epochEnded: 99, results: [] })).toThrow('does not follow');
+  });
+
+  it('should reject provisional results and invalid stores', () => {
+    const result = { ...createResult('0xaaa', 10, 1), provisional: true };
+
+    expect(() => applyEpochStreaks(createStreakStore(), { epochBegin: 0, epochEnded: 99, results: [result] }))
+      .toThrow('Only final results');
+    expect(() => parseStreakStore({ version: 1, lastEpochEnded: 99, streaks: { '0xaaa': 0 } }))
+      .toThrow('must be a positive integer');
+  });
+});
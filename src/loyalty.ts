@@ -0,0 +1,172 @@
+import Decimal from 'decimal.js';
+import { readFile, writeFile, rename } from 'fs/promises';
+import type { UserPoints } from './index';
+
+/**
+ * Activity streaks and loyalty multipliers across consecutive epochs
+ *
+ * An account is active in an epoch when it earned liquidity or trading points. Its
+ * streak is the number of consecutive active epochs up to and including the current
+ * one; a multiplier from the schedule is applied to its points as a separate bonus.
+ * Streak state is persisted between runs and can be rebuilt from past results.
+ */
+
+export interface LoyaltyTier {
+  minStreak: number;     // Consecutive active epochs, including the current one
+  multiplier: Decimal;
+}
+
+export interface LoyaltyConfig {
+  schedule: LoyaltyTier[];
+}
+
+export const STREAK_STORE_VERSION = 1;
+
+export interface StreakStore {
+  version: number;
+  lastEpochEnded: number | null;
+  streaks: Record<string, number>;  // Streak after the last applied epoch, active accounts only
+}
+
+export interface EpochResults {
+  epochBegin: number;
+  epochEnded: number;
+  results: UserPoints[];
+}
+
+/**
+ * Whether the account traded or provided liquidity in the epoch
+ */
+export function isActiveResult(result: UserPoints): boolean {
+  return result.lp_usd_hours.gt(0)
+    || result.volume_usd.gt(0)
+    || result.condition_volume_usd.gt(0)
+    || result.swap_usd.gt(0);
+}
+
+/**
+ * Multiplier of the highest tier reached by the streak, 1 below every tier
+ */
+export function selectLoyaltyMultiplier(schedule: LoyaltyTier[], streak: number): Decimal {
+  let selected: LoyaltyTier | null = null;
+  for (const tier of schedule) {
+    if (streak >= tier.minStreak && (!selected || tier.minStreak > selected.minStreak)) {
+      selected = tier;
+    }
+  }
+  return selected ? selected.multiplier : new Decimal(1);
+}
+
+export function createStreakStore(): StreakStore {
+  return {
+    version: STREAK_STORE_VERSION,
+    lastEpochEnded: null,
+    streaks: {}
+  };
+}
+
+/**
+ * Streaks to pass as CalculationOptions.previousStreaks for the epoch starting at epochBegin.
+ * The epoch must directly follow the last applied one.
+ */
+export function getPreviousStreaks(store: StreakStore, epochBegin: number): Map<string, number> {
+  if (store.lastEpochEnded !== null && epochBegin !== store.lastEpochEnded + 1) {
+    throw new Error(`Epoch starting ${epochBegin} does not follow the last applied epoch ending ${store.lastEpochEnded}`);
+  }
+  return new Map(Object.entries(store.streaks).map(([account, streak]) => [account.toLowerCase(), streak]));
+}
+
+/**
+ * Record the streaks produced by an epoch's final results
+ *
+ * @param store Store the results were calculated from
+ * @param epoch Final results of the epoch, calculated with loyalty enabled
+ * @returns A new store; accounts absent or inactive in the epoch lose their streak
+ */
+export function applyEpochStreaks(store: StreakStore, epoch: EpochResults): StreakStore {
+  if (store.lastEpochEnded !== null && epoch.epochBegin !== store.lastEpochEnded + 1) {
+    throw new Error(`Epoch starting ${epoch.epochBegin} does not follow the last applied epoch ending ${store.lastEpochEnded}`);
+  }
+  if (epoch.results.some(result => result.provisional)) {
+    throw new Error('Only final results can update streaks');
+  }
+
+  const streaks: Record<string, number> = {};
+  for (const result of epoch.results) {
+    if (result.streak > 0) {
+      streaks[result.account.toLowerCase()] = result.streak;
+    }
+  }
+  return {
+    version: store.version,
+    lastEpochEnded: epoch.epochEnded,
+    streaks
+  };
+}
+
+/**
+ * Rebuild streak state from historical results, oldest epoch first
+ */
+export function buildStreakStore(history: EpochResults[]): StreakStore {
+  let store = createStreakStore();
+  for (const epoch of history) {
+    const previous = getPreviousStreaks(store, epoch.epochBegin);
+    const results = epoch.results.map(result => ({
+      ...result,
+      streak: isActiveResult(result) ? (previous.get(result.account.toLowerCase()) || 0) + 1 : 0
+    }));
+    store = applyEpochStreaks(store, { ...epoch, results });
+  }
+  return store;
+}
+
+/**
+ * Validate a streak store read from JSON
+ */
+export function parseStreakStore(raw: unknown): StreakStore {
+  const store = raw as StreakStore;
+  if (!store || typeof store !== 'object') {
+    throw new Error('Streak store must be an object');
+  }
+  if (store.version !== STREAK_STORE_VERSION) {
+    throw new Error(`Unsupported streak store version ${store.version}, expected ${STREAK_STORE_VERSION}`);
+  }
+  if (store.lastEpochEnded !== null && !Number.isInteger(store.lastEpochEnded)) {
+    throw new Error('Streak store lastEpochEnded must be a unix timestamp or null');
+  }
+  for (const [account, streak] of Object.entries(store.streaks || {})) {
+    if (!Number.isInteger(streak) || streak < 1) {
+      throw new Error(`Streak of ${account} must be a positive integer: ${streak}`);
+    }
+  }
+  return {
+    version: store.version,
+    lastEpochEnded: store.lastEpochEnded,
+    streaks: { ...store.streaks }
+  };
+}
+
+/**
+ * Load the store from disk; a missing file yields an empty store
+ */
+export async function loadStreakStore(path: string): Promise<StreakStore> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return createStreakStore();
+    }
+    throw error;
+  }
+  return parseStreakStore(JSON.parse(content));
+}
+
+/**
+ * Write the store to disk, replacing the previous file atomically
+ */
+export async function saveStreakStore(path: string, store: StreakStore): Promise<void> {
+  const tempPath = `${path}.tmp`;
+  await writeFile(tempPath, JSON.stringify(store, null, 2) + '\n', 'utf8');
+  await rename(tempPath, path);
+}
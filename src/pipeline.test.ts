@@ -0,0 +1,289 @@
+import Decimal from 'decimal.js';
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { SubgraphClient } from './subgraph-client';
+import { SubgraphLeaderboardResponse, META_QUERY, BLOCK_META_QUERY, IndexingLagError } from './subgraph-types';
+import { CalculationConfig, PerpLeaderboard, UserPoints, calculateUserPoints } from './index';
+import { TransportRequest } from './transport';
+import {
+  calculateUserPointsStream,
+  drainToSink,
+  runPointsPipeline,
+  calculateAccountPoints,
+  createJsonLinesSink
+} from './pipeline';
+
+describe('Streaming Pipeline', () => {
+  const config: CalculationConfig = {
+    liquidityRate: new Decimal(1),
+    tradeRate: new Decimal(1),
+    tradeProfitRate: new Decimal(1)
+  };
+
+  const createLeaderboard = (account: string, tradingVolume: number): PerpLeaderboard => ({
+    account,
+    tradingVolume: new Decimal(tradingVolume),
+    conditionTradeVolume: new Decimal(0),
+    swap: new Decimal(0),
+    netProfit: new Decimal(0),
+    latestUpdateTimestamp: 1200,
+    start: [],
+    ended: [],
+    liquidity: { account, lp: new Decimal(0), start: [], ended: [] }
+  });
+
+  const createResponse = (account: string, tradingVolume: number): SubgraphLeaderboardResponse => ({
+    account,
+    swap: '0',
+    tradingVolume: String(tradingVolume),
+    conditionTradeVolume: '0',
+    netProfit: '0',
+    latestUpdateTimestamp: '1200',
+    start: [],
+    ended: [],
+    liquidity: null
+  });
+
+  async function* fromArray<T>(items: T[]): AsyncGenerator<T> {
+    for (const item of items) {
+      yield item;
+    }
+  }
+
+  const collect = async (batches: AsyncIterable<UserPoints[]>): Promise<UserPoints[][]> => {
+    const collected: UserPoints[][] = [];
+    for await (const batch of batches) {
+      collected.push(batch);
+    }
+    return collected;
+  };
+
+  it('should match the in-memory calculation batch by batch', async () => {
+    const batches = [
+      [createLeaderboard('0xaaa', 100), createLeaderboard('0xbbb', 200)],
+      [createLeaderboard('0xccc', 300)]
+    ];
+
+    const streamed = await collect(calculateUserPointsStream(fromArray(batches), config, 1000, 1500, true));
+
+    expect(streamed.flat()).toEqual(calculateUserPoints(batches.flat(), config, 1000, 1500, true));
+  });
+
+  it('should reject budget and referral configs', async () => {
+    const budget = { ...config, budget: { amounts: { volume: new Decimal(100) } } };
+    const referral = { ...config, referral: { levels: [new Decimal(0.1)] } };
+
+    await expect(collect(calculateUserPointsStream(fromArray([]), budget, 1000, 1500, true)))
+      .rejects.toThrow('Budget distribution');
+    await expect(collect(calculateUserPointsStream(fromArray([]), referral, 1000, 1500, true)))
+      .rejects.toThrow('Referral points');
+  });
+
+  it('should apply each adjustment once and emit unseen accounts last', async () => {
+    const adjustment = (account: string, points: number) => ({
+      account,
+      epochBegin: 1000,
+      epochEnded: 1500,
+      points: new Decimal(points),
+      author: 'ops',
+      note: 'compensation'
+    });
+
+    const batches = await collect(calculateUserPointsStream(
+      fromArray([[createLeaderboard('0xaaa', 100)], [createLeaderboard('0xbbb', 100)]]),
+      config,
+      1000,
+      1500,
+      false,
+      { adjustments: [adjustment('0xBBB', 10), adjustment('0xnew', 20)] }
+    ));
+
+    expect(batches).toHaveLength(3);
+    expect(batches[0][0].adjustment_points.toNumber()).toBe(0);
+    expect(batches[1][0].adjustment_points.toNumber()).toBe(10);
+    expect(batches[2][0].account).toBe('0xnew');
+    expect(batches[2][0].adjustment_points.toNumber()).toBe(20);
+    expect(batches[2][0].provisional).toBe(true);
+  });
+
+  it('should close the sink even when the stream fails', async () => {
+    const close = jest.fn();
+    async function* failing(): AsyncGenerator<UserPoints[]> {
+      throw new Error('boom');
+    }
+
+    await expect(drainToSink(failing(), { write: jest.fn(), close })).rejects.toThrow('boom');
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should run from the client to a JSON lines sink', async () => {
+    const request = jest.fn().mockResolvedValue({
+      data: [createResponse('0xaaa', 100), createResponse('0xbbb', 250)]
+    });
+    const client = new SubgraphClient({ requestsPerSecond: 0, pinBlock: false, transport: { request } });
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'pipeline-'));
+    const file = path.join(dir, 'points.jsonl');
+
+    try {
+      const summary = await runPointsPipeline({
+        client,
+        epochBegin: 1000,
+        epochEnded: 1500,
+        config,
+        overtime: true,
+        sink: createJsonLinesSink(file)
+      });
+
+      const lines = (await readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+      expect(summary.accounts).toBe(2);
+      expect(summary.batches).toBe(1);
+      expect(lines.map(line => [line.account, line.volume_usd])).toEqual([['0xaaa', '100'], ['0xbbb', '250']]);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('finality from the indexing status', () => {
+    const createClient = (timestamp: number, hasIndexingErrors = false, data = [createResponse('0xaaa', 100)]) => {
+      const request = jest.fn(({ query }: TransportRequest): Promise<any> =>
+        Promise.resolve(query === META_QUERY
+          ? { _meta: { block: { number: 77, timestamp }, hasIndexingErrors } }
+          : { data })
+      );
+      const client = new SubgraphClient({ requestsPerSecond: 0, transport: { request } });
+      return { client, request };
+    };
+
+    const collect = () => {
+      const results: UserPoints[] = [];
+      return { results, sink: { write: (batch: UserPoints[]) => { results.push(...batch); } } };
+    };
+
+    it('should calculate final results once the subgraph has indexed past the epoch', async () => {
+      const { client, request } = createClient(1500);
+      const { results, sink } = collect();
+
+      const summary = await runPointsPipeline({ client, epochBegin: 1000, epochEnded: 1500, config, sink });
+
+      expect(summary.provisional).toBe(false);
+      expect(summary.block).toBe(77);
+      expect(results[0].provisional).toBe(false);
+      expect(request.mock.calls.filter(call => call[0].query === META_QUERY)).toHaveLength(1);
+      expect(request.mock.calls[1][0].variables).toMatchObject({ block: 77 });
+    });
+
+    it('should refuse an epoch the subgraph has not indexed past', async () => {
+      const { client, request } = createClient(1400);
+      const write = jest.fn();
+
+      const run = runPointsPipeline({ client, epochBegin: 1000, epochEnded: 1500, config, sink: { write } });
+
+      await expect(run).rejects.toThrow(IndexingLagError);
+      await expect(run).rejects.toThrow('indexed up to 1400 (block 77), 100s short');
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(write).not.toHaveBeenCalled();
+    });
+
+    it('should mark a lagging epoch as provisional when asked to', async () => {
+      const { client } = createClient(1400);
+      const { results, sink } = collect();
+
+      const summary = await runPointsPipeline({
+        client,
+        epochBegin: 1000,
+        epochEnded: 1500,
+        config: { ...config, extrapolation: 'none' },
+        finality: 'provisional',
+        sink
+      });
+
+      expect(summary.provisional).toBe(true);
+      expect(results[0].provisional).toBe(true);
+    });
+
+    it('should decide finality from the timestamp of an explicit block', async () => {
+      const request = jest.fn(({ query, variables }: TransportRequest): Promise<any> =>
+        Promise.resolve(query === META_QUERY
+          ? { _meta: { block: { number: 77, timestamp: 1600 }, hasIndexingErrors: false } }
+          : query === BLOCK_META_QUERY
+            ? { _meta: { block: { number: variables.block, timestamp: 1400 }, hasIndexingErrors: false } }
+            : { data: [createResponse('0xaaa', 100)] })
+      );
+      const client = new SubgraphClient({ requestsPerSecond: 0, transport: { request } });
+      const { results, sink } = collect();
+      const params = { client, epochBegin: 1000, epochEnded: 1500, config: { ...config, extrapolation: 'none' as const }, block: 10 };
+
+      const summary = await runPointsPipeline({ ...params, finality: 'provisional', sink });
+
+      expect(summary.provisional).toBe(true);
+      expect(summary.block).toBe(10);
+      expect(results[0].provisional).toBe(true);
+      expect(request.mock.calls.some(call => call[0].query === META_QUERY)).toBe(false);
+      await expect(runPointsPipeline({ ...params, sink: { write: jest.fn() } }))
+        .rejects.toThrow('block 10 is at 1400, 100s short');
+    });
+
+    it('should calculate a single account from a targeted lookup', async () => {
+      const { client, request } = createClient(1500);
+      const adjustment = (account: string, points: number) => ({
+        account,
+        epochBegin: 1000,
+        epochEnded: 1500,
+        points: new Decimal(points),
+        author: 'ops',
+        note: 'compensation'
+      });
+
+      const result = await calculateAccountPoints({
+        client,
+        address: '0xAAA',
+        epochBegin: 1000,
+        epochEnded: 1500,
+        config,
+        options: { adjustments: [adjustment('0xaaa', 5), adjustment('0xbbb', 7)] }
+      });
+
+      const [expected] = calculateUserPoints([createLeaderboard('0xaaa', 100)], config, 1000, 1500, true, {
+        adjustments: [adjustment('0xaaa', 5)]
+      });
+      expect(result).toEqual(expected);
+      expect(result.adjustment_points.toNumber()).toBe(5);
+      expect(request.mock.calls[1][0].variables).toMatchObject({ accounts: ['0xaaa'], block: 77 });
+    });
+
+    it('should return empty points for an account without a leaderboard', async () => {
+      const { client } = createClient(1400, false, []);
+
+      const result = await calculateAccountPoints({
+        client,
+        address: '0xDDD',
+        epochBegin: 1000,
+        epochEnded: 1500,
+        config,
+        finality: 'provisional'
+      });
+
+      expect(result.account).toBe('0xddd');
+      expect(result.capped_points.total.toNumber()).toBe(0);
+      expect(result.provisional).toBe(true);
+    });
+
+    it('should reject budget and referral configs for a single account', async () => {
+      const { client } = createClient(1500);
+      const params = { client, address: '0xaaa', epochBegin: 1000, epochEnded: 1500 };
+
+      await expect(calculateAccountPoints({ ...params, config: { ...config, budget: { amounts: { volume: new Decimal(100) } } } }))
+        .rejects.toThrow('Budget distribution');
+      await expect(calculateAccountPoints({ ...params, config: { ...config, referral: { levels: [new Decimal(0.1)] } } }))
+        .rejects.toThrow('Referral points');
+    });
+
+    it('should not treat an epoch as final while the subgraph reports indexing errors', async () => {
+      const { client } = createClient(2000, true);
+
+      await expect(runPointsPipeline({ client, epochBegin: 1000, epochEnded: 1500, config, sink: { write: jest.fn() } }))
+        .rejects.toThrow('indexing errors at block 77');
+    });
+  });
+});
@@ -0,0 +1,272 @@
+import { createWriteStream } from 'fs';
+import { once } from 'events';
+import { SubgraphClient } from './subgraph-client';
+import { SubgraphLeaderboardResponse, PaginationInfo, FinalityPolicy } from './subgraph-types';
+import { transformLeaderboards } from './data-transformer';
+import {
+  PerpLeaderboard,
+  CalculationConfig,
+  CalculationOptions,
+  UserPoints,
+  calculateUserPoints,
+  createEmptyUserPoints,
+  applyAdjustments
+} from './index';
+import { Adjustment } from './adjustments';
+
+/**
+ * Streaming pipeline: subgraph pages → transform → calculation → sink
+ *
+ * Each page flows through the whole pipeline before the next one is fetched, so
+ * memory is bounded by the page size rather than the number of accounts.
+ */
+
+export interface PointsSink {
+  write(batch: UserPoints[]): void | Promise<void>;
+  close?(): void | Promise<void>;
+}
+
+export interface PipelineSummary {
+  accounts: number;
+  batches: number;
+  durationMs: number;
+  block?: number;        // Block every page was read at
+  provisional: boolean;  // Results were calculated before the epoch was final
+}
+
+/**
+ * Transform subgraph pages into calculation input, page by page
+ */
+export async function* transformPages(
+  pages: AsyncIterable<SubgraphLeaderboardResponse[]>
+): AsyncGenerator<PerpLeaderboard[]> {
+  for await (const page of pages) {
+    yield transformLeaderboards(page);
+  }
+}
+
+/**
+ * Calculate points batch by batch
+ *
+ * Budget distribution and referral points need every account at once and are rejected.
+ * Adjustments are applied to the batch containing their account; adjustments for
+ * accounts that never appear are emitted as a final batch.
+ */
+export async function* calculateUserPointsStream(
+  batches: AsyncIterable<PerpLeaderboard[]>,
+  config: CalculationConfig,
+  startTime: number,
+  stopTime: number,
+  overtime: boolean,
+  options: CalculationOptions = {}
+): AsyncGenerator<UserPoints[]> {
+  if (config.budget) {
+    throw new Error('Budget distribution needs every account and is not supported when streaming');
+  }
+  if (config.referral) {
+    throw new Error('Referral points need every account and are not supported when streaming');
+  }
+
+  const { adjustments, ...batchOptions } = options;
+  const pending = new Map<string, Adjustment[]>();
+  for (const adjustment of adjustments || []) {
+    const account = adjustment.account.toLowerCase();
+    pending.set(account, [...(pending.get(account) || []), adjustment]);
+  }
+
+  for await (const batch of batches) {
+    const results = calculateUserPoints(batch, config, startTime, stopTime, overtime, batchOptions);
+    for (const result of results) {
+      const account = result.account.toLowerCase();
+      const accountAdjustments = pending.get(account);
+      if (accountAdjustments) {
+        applyAdjustments([result], accountAdjustments, startTime, stopTime);
+        pending.delete(account);
+      }
+    }
+    yield results;
+  }
+
+  const remaining: UserPoints[] = [];
+  for (const [account, accountAdjustments] of pending) {
+    const result = createEmptyUserPoints(account);
+    applyAdjustments([result], accountAdjustments, startTime, stopTime);
+    result.provisional = !overtime;
+    if (result.adjustments.length > 0) {
+      remaining.push(result);
+    }
+  }
+  if (remaining.length > 0) {
+    yield remaining;
+  }
+}
+
+/**
+ * Write every result batch to the sink and close it
+ */
+export async function drainToSink(
+  batches: AsyncIterable<UserPoints[]>,
+  sink: PointsSink
+): Promise<Pick<PipelineSummary, 'accounts' | 'batches'>> {
+  let accounts = 0;
+  let count = 0;
+  try {
+    for await (const batch of batches) {
+      await sink.write(batch);
+      accounts += batch.length;
+      count++;
+    }
+  } finally {
+    await sink.close?.();
+  }
+  return { accounts, batches: count };
+}
+
+/**
+ * Whether the run is final, the calculation options and the block to read at.
+ * Without `overtime`, finality comes from the indexing status and the data is read
+ * at the block it was decided on; a final epoch with a response cache reuses the
+ * block cached for it (see SubgraphClient.resolveBlock). A given block is judged
+ * by its own timestamp.
+ */
+async function resolveEpochRun(params: {
+  client: SubgraphClient;
+  epochEnded: number;
+  overtime?: boolean;
+  finality?: FinalityPolicy;
+  options?: CalculationOptions;
+  block?: number;
+  signal?: AbortSignal;
+}): Promise<{ overtime: boolean; options?: CalculationOptions; block?: number }> {
+  const { client, signal } = params;
+  if (params.overtime !== undefined) {
+    return {
+      overtime: params.overtime,
+      options: params.options,
+      block: await client.resolveBlock(params.block, { signal, epochEnded: params.epochEnded })
+    };
+  }
+
+  const { final, status } = await client.getEpochFinality(params.epochEnded, params.finality, { signal, block: params.block });
+  const { pinBlock, cache } = client.getConfig();
+  let block = params.block;
+  if (block === undefined && pinBlock !== false) {
+    block = final && cache
+      ? await client.resolveBlock(undefined, { signal, epochEnded: params.epochEnded })
+      : status.block.number;
+  }
+  return {
+    overtime: final,
+    options: { indexedTimestamp: status.block.timestamp, ...params.options },
+    block
+  };
+}
+
+/**
+ * Fetch, transform and calculate an epoch end to end, writing results to the sink.
+ * Every page is read at the same block, the latest indexed one unless given.
+ *
+ * Without `overtime`, finality is decided from the subgraph's indexing status: an
+ * epoch the subgraph has not indexed past is refused with an IndexingLagError, or
+ * calculated as provisional with `finality: 'provisional'`.
+ */
+export async function runPointsPipeline(params: {
+  client: SubgraphClient;
+  epochBegin: number;
+  epochEnded: number;
+  config: CalculationConfig;
+  overtime?: boolean;
+  finality?: FinalityPolicy;
+  options?: CalculationOptions;
+  sink: PointsSink;
+  block?: number;
+  onProgress?: (pagination: PaginationInfo) => void;
+  signal?: AbortSignal;
+}): Promise<PipelineSummary> {
+  const startedAt = Date.now();
+  const { overtime, options, block } = await resolveEpochRun(params);
+
+  const pages = params.client.streamPages(params.epochBegin, params.epochEnded, params.onProgress, block, { signal: params.signal });
+  const results = calculateUserPointsStream(
+    transformPages(pages),
+    params.config,
+    params.epochBegin,
+    params.epochEnded,
+    overtime,
+    options
+  );
+  const summary = await drainToSink(results, params.sink);
+  return { ...summary, durationMs: Date.now() - startedAt, block, provisional: !overtime };
+}
+
+/**
+ * Calculate the points of one account from a targeted lookup, without scanning the
+ * leaderboard. Finality and block follow runPointsPipeline.
+ *
+ * Budget distribution and referral points depend on every account and are rejected.
+ * An account without a leaderboard gets empty points plus its adjustments.
+ */
+export async function calculateAccountPoints(params: {
+  client: SubgraphClient;
+  address: string;
+  epochBegin: number;
+  epochEnded: number;
+  config: CalculationConfig;
+  overtime?: boolean;
+  finality?: FinalityPolicy;
+  options?: CalculationOptions;
+  block?: number;
+  signal?: AbortSignal;
+}): Promise<UserPoints> {
+  if (params.config.budget) {
+    throw new Error('Budget distribution needs every account and is not supported for a single account');
+  }
+  if (params.config.referral) {
+    throw new Error('Referral points need every account and are not supported for a single account');
+  }
+
+  const account = params.address.toLowerCase();
+  const { overtime, options = {}, block } = await resolveEpochRun(params);
+  const { data } = await params.client.fetchAccounts([account], params.epochBegin, params.epochEnded, {
+    block,
+    signal: params.signal
+  });
+
+  const adjustments = options.adjustments?.filter(adjustment => adjustment.account.toLowerCase() === account);
+  const results = calculateUserPoints(
+    transformLeaderboards(data),
+    params.config,
+    params.epochBegin,
+    params.epochEnded,
+    overtime,
+    { ...options, adjustments }
+  );
+  const result = results.find(candidate => candidate.account.toLowerCase() === account);
+  if (result) {
+    return result;
+  }
+
+  const empty = createEmptyUserPoints(account);
+  empty.provisional = !overtime;
+  return empty;
+}
+
+/**
+ * Sink writing one JSON object per line, waiting for the file stream to drain
+ */
+export function createJsonLinesSink(path: string): PointsSink {
+  const stream = createWriteStream(path, { encoding: 'utf8' });
+  return {
+    async write(batch: UserPoints[]) {
+      for (const result of batch) {
+        if (!stream.write(JSON.stringify(result) + '\n')) {
+          await once(stream, 'drain');
+        }
+      }
+    },
+    async close() {
+      stream.end();
+      await once(stream, 'finish');
+    }
+  };
+}
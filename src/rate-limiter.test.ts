@@ -0,0 +1,95 @@
+import { TokenBucketLimiter, parseRetryAfter } from './rate-limiter';
+
+describe('Rate Limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  // Start times (ms) of tasks scheduled together, each holding its slot for `duration`
+  const runTasks = async (limiter: TokenBucketLimiter, count: number, duration = 0) => {
+    const started: number[] = [];
+    const tasks = Array.from({ length: count }, () => limiter.schedule(async () => {
+      started.push(Date.now());
+      await new Promise(resolve => setTimeout(resolve, duration));
+    }));
+    await jest.advanceTimersByTimeAsync(60000);
+    await Promise.all(tasks);
+    return started;
+  };
+
+  describe('TokenBucketLimiter', () => {
+    it('should space requests at the sustained rate', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 2, concurrency: 10 });
+
+      expect(await runTasks(limiter, 4)).toEqual([0, 500, 1000, 1500]);
+    });
+
+    it('should let a burst start back to back after idling', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 2, burst: 3, concurrency: 10 });
+
+      expect(await runTasks(limiter, 5)).toEqual([0, 0, 0, 500, 1000]);
+    });
+
+    it('should cap requests in flight', async () => {
+      const limiter = new TokenBucketLimiter({ concurrency: 2 });
+
+      expect(await runTasks(limiter, 5, 100)).toEqual([0, 0, 100, 100, 200]);
+    });
+
+    it('should hold back every waiting request during a pause', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 10, burst: 5, concurrency: 10 });
+      limiter.pauseFor(3000);
+
+      expect(await runTasks(limiter, 3)).toEqual([3000, 3000, 3000]);
+    });
+
+    it('should apply a new rate to waiting requests', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 1, concurrency: 10 });
+      const tasks = runTasks(limiter, 3);
+      limiter.configure({ requestsPerSecond: 0 });
+
+      expect(await tasks).toEqual([0, 0, 0]);
+    });
+
+    it('should drop a waiting request when its signal aborts', async () => {
+      const limiter = new TokenBucketLimiter({ requestsPerSecond: 1 });
+      const controller = new AbortController();
+      await limiter.acquire();
+
+      const waiting = limiter.acquire(controller.signal);
+      expect(limiter.pending).toBe(1);
+      controller.abort(new Error('stop'));
+
+      await expect(waiting).rejects.toThrow('stop');
+      expect(limiter.pending).toBe(0);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should release the slot when a task fails', async () => {
+      const limiter = new TokenBucketLimiter({ concurrency: 1 });
+
+      await expect(limiter.schedule(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+      await expect(limiter.schedule(async () => 'ok')).resolves.toBe('ok');
+      expect(limiter.pending).toBe(0);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read seconds and HTTP dates', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter('0.5')).toBe(500);
+      expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:10 GMT', 4000)).toBe(6000);
+      expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:01 GMT', 4000)).toBe(0);
+    });
+
+    it('should ignore missing or malformed values', () => {
+      expect(parseRetryAfter(undefined)).toBeUndefined();
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+});
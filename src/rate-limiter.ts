@@ -0,0 +1,182 @@
+/**
+ * Token-bucket rate limiter shared by every request of a client
+ *
+ * Tokens refill continuously at requestsPerSecond up to burst, and each request takes
+ * one. At most `concurrency` requests are in flight at once, and a pause (e.g. from a
+ * 429 Retry-After) holds back every waiting request, so parallel fetches together
+ * never exceed the configured rate. Requests are started in the order they asked.
+ */
+
+export interface RateLimiterOptions {
+  requestsPerSecond?: number;  // Sustained rate, 0 or undefined for unlimited
+  burst?: number;              // Requests that may start back to back after idling, default 1
+  concurrency?: number;        // Requests in flight at once, default 1
+}
+
+export class TokenBucketLimiter {
+  private options: Required<RateLimiterOptions>;
+  private tokens: number;
+  private updatedAt: number = Date.now();
+  private active: number = 0;
+  private pausedUntil: number = 0;
+  private waiters: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.options = TokenBucketLimiter.normalize(options);
+    this.tokens = this.options.burst;
+  }
+
+  private static normalize(options: RateLimiterOptions): Required<RateLimiterOptions> {
+    return {
+      requestsPerSecond: Math.max(0, options.requestsPerSecond || 0),
+      burst: Math.max(1, Math.floor(options.burst || 1)),
+      concurrency: Math.max(1, Math.floor(options.concurrency || 1))
+    };
+  }
+
+  /**
+   * Change the rate, burst or concurrency; waiting requests follow the new settings
+   */
+  configure(options: RateLimiterOptions): void {
+    this.refill(Date.now());
+    this.options = TokenBucketLimiter.normalize({ ...this.options, ...options });
+    this.tokens = Math.min(this.tokens, this.options.burst);
+    this.reschedule();
+  }
+
+  /**
+   * Wait for a token and a free slot. Call release() once the request settles.
+   * Aborting the signal leaves the queue and rejects with the signal's reason.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        this.waiters = this.waiters.filter(waiter => waiter !== start);
+        if (this.waiters.length === 0) {
+          this.clearTimer();
+        }
+        reject(signal!.reason);
+      };
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(start);
+      this.pump();
+    });
+  }
+
+  /**
+   * Free the slot taken by acquire()
+   */
+  release(): void {
+    this.active = Math.max(0, this.active - 1);
+    this.pump();
+  }
+
+  /**
+   * Run a task once a token and a slot are available
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Hold back every request not yet started for the given time
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.reschedule();
+  }
+
+  /**
+   * Requests waiting for a token or a slot
+   */
+  get pending(): number {
+    return this.waiters.length;
+  }
+
+  private refill(now: number): void {
+    const { requestsPerSecond, burst } = this.options;
+    if (requestsPerSecond > 0) {
+      this.tokens = Math.min(burst, this.tokens + ((now - this.updatedAt) / 1000) * requestsPerSecond);
+    }
+    this.updatedAt = now;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private reschedule(): void {
+    this.clearTimer();
+    this.pump();
+  }
+
+  private wait(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.pump();
+    }, Math.max(0, ms));
+  }
+
+  /**
+   * Start as many waiting requests as the bucket, the slots and any pause allow
+   */
+  private pump(): void {
+    if (this.timer) return;
+
+    while (this.waiters.length > 0) {
+      if (this.active >= this.options.concurrency) return;  // release() pumps again
+
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.wait(this.pausedUntil - now);
+        return;
+      }
+
+      const { requestsPerSecond } = this.options;
+      if (requestsPerSecond > 0) {
+        this.refill(now);
+        if (this.tokens < 1) {
+          this.wait(Math.ceil(((1 - this.tokens) * 1000) / requestsPerSecond));
+          return;
+        }
+        this.tokens -= 1;
+      }
+
+      this.active++;
+      this.waiters.shift()!();
+    }
+  }
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header, given in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
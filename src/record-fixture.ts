@@ -0,0 +1,33 @@
+import { SubgraphClient } from './subgraph-client';
+import { DEFAULT_SUBGRAPH_CONFIG } from './subgraph-types';
+import { createGraphQLRequestTransport, createRecordingTransport } from './transport';
+
+/**
+ * Record every request of a block-pinned epoch fetch into a fixture file, to be
+ * served back by createReplayTransport in offline tests
+ *
+ * Usage: node dist/src/record-fixture.js <epochBegin> <epochEnded> <fixture.json> [endpoint]
+ */
+
+async function main() {
+  const [epochBegin, epochEnded, fixturePath, endpoint = DEFAULT_SUBGRAPH_CONFIG.endpoint] = process.argv.slice(2);
+  if (!epochBegin || !epochEnded || !fixturePath) {
+    console.error('Usage: record-fixture <epochBegin> <epochEnded> <fixture.json> [endpoint]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const recorder = createRecordingTransport(createGraphQLRequestTransport(endpoint));
+  const client = new SubgraphClient({ endpoint, transport: recorder });
+
+  const { data, block } = await client.fetchSnapshot(parseInt(epochBegin, 10), parseInt(epochEnded, 10));
+  await recorder.save(fixturePath);
+  console.log(`📼 Recorded ${recorder.fixture.entries.length} requests (${data.length} records at block ${block}) to ${fixturePath}`);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
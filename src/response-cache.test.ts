@@ -0,0 +1,158 @@
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm, readdir, writeFile } from 'fs/promises';
+import { ResponseCache } from './response-cache';
+import { SubgraphClient } from './subgraph-client';
+import { SubgraphTransport, TransportRequest } from './transport';
+
+describe('Response Cache', () => {
+  const key = (block: number, endpoint = 'https://example.com/subgraph') => ({
+    endpoint,
+    query: 'query MyQuery($block: Int!) { data: leaderboards(block: { number: $block }) { account } }',
+    variables: { lastId: '', epochBegin: 1000, epochEnded: 1999, block }
+  });
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'response-cache-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should store responses per endpoint, query, variables and block', async () => {
+    const cache = new ResponseCache({ dir: path.join(dir, 'nested') });
+
+    await cache.set(key(100), { data: [{ account: '0xaaa' }] }, { final: true });
+
+    expect(await cache.get(key(100))).toEqual({ data: [{ account: '0xaaa' }] });
+    expect(await cache.get(key(101))).toBeUndefined();
+    expect(await cache.get(key(100, 'https://other.example.com'))).toBeUndefined();
+    expect(await cache.get({ ...key(100), variables: { ...key(100).variables, lastId: '0xaaa' } })).toBeUndefined();
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 3, expired: 0, writes: 1 });
+  });
+
+  it('should expire non-final pages after the TTL but keep final ones', async () => {
+    const cache = new ResponseCache({ dir, ttlMs: 1000 });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10000);
+    await cache.set(key(100), { data: [] }, { final: false });
+    await cache.set(key(200), { data: [] }, { final: true });
+
+    now.mockReturnValue(10999);
+    expect(await cache.get(key(100))).toEqual({ data: [] });
+    now.mockReturnValue(11000);
+    expect(await cache.get(key(100))).toBeUndefined();
+    expect(await cache.get(key(200))).toEqual({ data: [] });
+    expect(cache.getStats()).toMatchObject({ hits: 2, misses: 1, expired: 1 });
+  });
+
+  it('should report and purge entries on disk', async () => {
+    const cache = new ResponseCache({ dir, ttlMs: 1000 });
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10000);
+    await cache.set(key(100), { data: [] }, { final: false });
+    await cache.set(key(200), { data: [] }, { final: true });
+    await cache.set(key(300, 'https://other.example.com'), { data: [] }, { final: true });
+    await writeFile(path.join(dir, 'notes.txt'), 'not an entry');
+    now.mockReturnValue(20000);
+
+    expect(await cache.inspect()).toMatchObject({ entries: 3, finalEntries: 2, expiredEntries: 1 });
+    expect(await cache.purge({ expiredOnly: true })).toBe(1);
+    expect(await cache.purge({ endpoint: 'https://other.example.com' })).toBe(1);
+    expect(await cache.get(key(200))).toEqual({ data: [] });
+    expect(await cache.purge()).toBe(1);
+    expect(await readdir(dir)).toEqual(['notes.txt']);
+  });
+
+  it('should treat a missing cache directory as empty', async () => {
+    const cache = new ResponseCache({ dir: path.join(dir, 'missing') });
+
+    expect(await cache.inspect()).toEqual({ entries: 0, finalEntries: 0, expiredEntries: 0, bytes: 0 });
+    expect(await cache.purge()).toBe(0);
+  });
+
+  describe('in SubgraphClient', () => {
+    // Latest block `latestBlock`; every block's timestamp is blockTimestamp
+    const createTransport = (blockTimestamp: number, latestBlock = 500, hasIndexingErrors = false) => {
+      const request = jest.fn(async ({ query, variables }: TransportRequest): Promise<any> =>
+        query.includes('_meta')
+          ? { _meta: { block: { number: variables.block ?? latestBlock, timestamp: blockTimestamp }, hasIndexingErrors } }
+          : { data: [{ account: '0xaaa' }] }
+      );
+      const transport: SubgraphTransport = { request };
+      return { transport, request };
+    };
+
+    it('should serve a re-run at the same block from the cache', async () => {
+      const cache = new ResponseCache({ dir });
+      const { transport, request } = createTransport(2500);
+      const client = new SubgraphClient({ transport, cache, requestsPerSecond: 0 });
+
+      const first = await client.fetchSnapshot(1000, 1999);
+      const second = await client.fetchSnapshot(1000, 1999, { block: first.block });
+
+      expect(second).toEqual(first);
+      expect(request).toHaveBeenCalledTimes(2);  // _meta and one page
+      expect(cache.getStats()).toMatchObject({ hits: 1, writes: 2 });  // The page and the epoch's block
+      expect(await cache.inspect()).toMatchObject({ entries: 2, finalEntries: 2 });
+    });
+
+    it('should mark pages final from the block timestamp when the block was given', async () => {
+      const cache = new ResponseCache({ dir });
+      const { transport, request } = createTransport(2500);
+      const client = new SubgraphClient({ transport, cache, requestsPerSecond: 0 });
+
+      await client.fetchSnapshot(1000, 1999, { block: 400 });
+
+      expect(request.mock.calls.map(([{ variables }]) => variables)).toEqual([
+        expect.objectContaining({ block: 400 }),  // The page
+        { block: 400 }                            // Its block timestamp
+      ]);
+      expect(await cache.inspect()).toMatchObject({ entries: 2, finalEntries: 2 });
+
+      // A new process re-running at that block is served from disk
+      const rerun = createTransport(2500);
+      const again = new SubgraphClient({ transport: rerun.transport, cache: new ResponseCache({ dir }), requestsPerSecond: 0 });
+      await again.fetchSnapshot(1000, 1999, { block: 400 });
+      expect(rerun.request).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the block of a final epoch when re-run without a block', async () => {
+      const first = await new SubgraphClient({ transport: createTransport(2500).transport, cache: new ResponseCache({ dir }), requestsPerSecond: 0 })
+        .fetchSnapshot(1000, 1999);
+
+      // The subgraph has moved on to block 600 since
+      const { transport, request } = createTransport(3000, 600);
+      const second = await new SubgraphClient({ transport, cache: new ResponseCache({ dir }), requestsPerSecond: 0 })
+        .fetchSnapshot(1000, 1999);
+
+      expect(second).toEqual(first);
+      expect(second.block).toBe(500);
+      expect(request).not.toHaveBeenCalled();
+    });
+
+    it('should not keep the block of an epoch while the subgraph reports indexing errors', async () => {
+      await new SubgraphClient({ transport: createTransport(2500, 500, true).transport, cache: new ResponseCache({ dir }), requestsPerSecond: 0 })
+        .fetchSnapshot(1000, 1999);
+
+      const { transport, request } = createTransport(3000, 600);
+      const second = await new SubgraphClient({ transport, cache: new ResponseCache({ dir }), requestsPerSecond: 0 })
+        .fetchSnapshot(1000, 1999);
+
+      expect(second.block).toBe(600);
+      expect(request).toHaveBeenCalledTimes(2);  // _meta and one page
+    });
+
+    it('should give pages of a window that is not final yet a TTL', async () => {
+      const cache = new ResponseCache({ dir });
+      const { transport } = createTransport(1500);
+      const client = new SubgraphClient({ transport, cache, requestsPerSecond: 0 });
+
+      await client.fetchSnapshot(1000, 1999);
+
+      expect(await cache.inspect()).toMatchObject({ entries: 1, finalEntries: 0 });
+    });
+  });
+});
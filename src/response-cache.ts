@@ -0,0 +1,189 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile, rename, readdir, rm, stat } from 'fs/promises';
+import * as path from 'path';
+import { getRequestKey } from './transport';
+
+/**
+ * On-disk cache of subgraph page responses
+ *
+ * Entries are keyed by endpoint, query hash, variables and the pinned block, one JSON
+ * file per entry. A page of a window that was already final at its block never
+ * changes and is kept until purged; any other page expires after the TTL.
+ */
+
+export const CACHE_ENTRY_VERSION = 1;
+
+export interface CacheKey {
+  endpoint: string;
+  query: string;
+  variables: Record<string, any>;  // Includes the pinned block, when any
+}
+
+export interface CacheEntry {
+  version: number;
+  endpoint: string;
+  queryHash: string;
+  variables: Record<string, any>;
+  storedAt: number;          // ms since epoch
+  expiresAt: number | null;  // null for final windows
+  response: unknown;
+}
+
+export interface ResponseCacheOptions {
+  dir: string;
+  ttlMs?: number;            // Lifetime of non-final pages, default 5 minutes
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  expired: number;           // Misses caused by an expired entry
+  writes: number;
+}
+
+export interface CacheDiskStats {
+  entries: number;
+  finalEntries: number;
+  expiredEntries: number;
+  bytes: number;
+}
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export class ResponseCache {
+  readonly dir: string;
+  private ttlMs: number;
+  private stats: CacheStats = { hits: 0, misses: 0, expired: 0, writes: 0 };
+
+  constructor(options: ResponseCacheOptions) {
+    this.dir = options.dir;
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+  }
+
+  private getPath(key: CacheKey): string {
+    return path.join(this.dir, `${sha256(JSON.stringify([key.endpoint, getRequestKey(key.query, key.variables)]))}.json`);
+  }
+
+  /**
+   * Cached response for the request, or undefined when missing or expired
+   */
+  async get<T>(key: CacheKey): Promise<T | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await readFile(this.getPath(key), 'utf8'));
+    } catch {
+      // Missing or unreadable entries are refetched and overwritten
+      this.stats.misses++;
+      return undefined;
+    }
+
+    if (entry.version !== CACHE_ENTRY_VERSION) {
+      this.stats.misses++;
+      return undefined;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.stats.misses++;
+      this.stats.expired++;
+      return undefined;
+    }
+    this.stats.hits++;
+    return entry.response as T;
+  }
+
+  /**
+   * Store a response; pages of final windows never expire
+   */
+  async set(key: CacheKey, response: unknown, options: { final: boolean }): Promise<void> {
+    const now = Date.now();
+    const entry: CacheEntry = {
+      version: CACHE_ENTRY_VERSION,
+      endpoint: key.endpoint,
+      queryHash: sha256(key.query.replace(/\s+/g, ' ').trim()),
+      variables: key.variables,
+      storedAt: now,
+      expiresAt: options.final ? null : now + this.ttlMs,
+      response
+    };
+
+    const file = this.getPath(key);
+    const tempPath = `${file}.${process.pid}.tmp`;
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(tempPath, JSON.stringify(entry), 'utf8');
+    await rename(tempPath, file);
+    this.stats.writes++;
+  }
+
+  /**
+   * Hits, misses and writes since the cache was created
+   */
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Count entries and bytes on disk
+   */
+  async inspect(): Promise<CacheDiskStats> {
+    const result: CacheDiskStats = { entries: 0, finalEntries: 0, expiredEntries: 0, bytes: 0 };
+    const now = Date.now();
+    for (const file of await this.listEntryFiles()) {
+      const entry = await this.readEntry(file);
+      if (!entry) continue;
+      result.entries++;
+      result.bytes += (await stat(file)).size;
+      if (entry.expiresAt === null) {
+        result.finalEntries++;
+      } else if (entry.expiresAt <= now) {
+        result.expiredEntries++;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Delete entries: all of them, only expired ones, or those of one endpoint
+   *
+   * @returns Number of entries deleted
+   */
+  async purge(options: { expiredOnly?: boolean; endpoint?: string } = {}): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+    for (const file of await this.listEntryFiles()) {
+      if (options.expiredOnly || options.endpoint) {
+        const entry = await this.readEntry(file);
+        if (entry) {
+          if (options.expiredOnly && (entry.expiresAt === null || entry.expiresAt > now)) continue;
+          if (options.endpoint && entry.endpoint !== options.endpoint) continue;
+        }
+      }
+      await rm(file, { force: true });
+      deleted++;
+    }
+    return deleted;
+  }
+
+  private async listEntryFiles(): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await readdir(this.dir);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return names.filter(name => /^[0-9a-f]{64}\.json$/.test(name)).map(name => path.join(this.dir, name));
+  }
+
+  private async readEntry(file: string): Promise<CacheEntry | null> {
+    try {
+      return JSON.parse(await readFile(file, 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+}
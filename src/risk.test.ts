@@ -0,0 +1,148 @@
+import Decimal from 'decimal.js';
+import { PerpLeaderboard, PerpLeaderboardSnap, calculateUserPoints, CalculationConfig } from './index';
+import { scoreAccounts } from './risk';
+import { getAverageCollateral } from './collateral-weighting';
+
+describe('Risk Scoring', () => {
+  const createSnap = (
+    tradingVolume: number,
+    netProfit: number,
+    collateralUsd?: number
+  ): PerpLeaderboardSnap => ({
+    tradingVolume: new Decimal(tradingVolume),
+    conditionTradeVolume: new Decimal(0),
+    swap: new Decimal(0),
+    netProfit: new Decimal(netProfit),
+    collateralUsd: collateralUsd === undefined ? undefined : new Decimal(collateralUsd)
+  });
+
+  const createLeaderboard = (
+    account: string,
+    volume: number,
+    netProfit: number,
+    collateralUsd?: number
+  ): PerpLeaderboard => ({
+    account,
+    tradingVolume: new Decimal(volume),
+    conditionTradeVolume: new Decimal(0),
+    swap: new Decimal(0),
+    netProfit: new Decimal(netProfit),
+    latestUpdateTimestamp: 2500,
+    start: [createSnap(0, 0, collateralUsd)],
+    ended: [createSnap(volume, netProfit, collateralUsd)],
+    liquidity: {
+      account,
+      lp: new Decimal(0),
+      start: [],
+      ended: []
+    }
+  });
+
+  describe('scoreAccounts', () => {
+    it('should not flag ordinary trading', () => {
+      const [assessment] = scoreAccounts([createLeaderboard('0xaaa', 50000, 1200, 5000)], 1000, 2000);
+
+      expect(assessment.score).toBe(0);
+      expect(assessment.reasons).toHaveLength(0);
+    });
+
+    it('should flag high volume with near-zero net PnL', () => {
+      const [assessment] = scoreAccounts([createLeaderboard('0xaaa', 1000000, 10)], 1000, 2000);
+
+      expect(assessment.reasons.map(reason => reason.code)).toEqual(['LOW_PNL_HIGH_VOLUME']);
+      expect(assessment.score).toBe(0.4);
+    });
+
+    it('should ignore near-zero PnL below the minimum volume', () => {
+      const [assessment] = scoreAccounts([createLeaderboard('0xaaa', 5000, 0)], 1000, 2000);
+
+      expect(assessment.score).toBe(0);
+    });
+
+    it('should flag implausible volume to collateral ratios', () => {
+      const [assessment] = scoreAccounts([createLeaderboard('0xaaa', 1000000, 5000, 100)], 1000, 2000);
+
+      expect(assessment.reasons.map(reason => reason.code)).toEqual(['HIGH_TURNOVER']);
+      expect(assessment.reasons[0].detail).toContain('10000x');
+    });
+
+    it('should flag groups of accounts with identical activity', () => {
+      const assessments = scoreAccounts([
+        createLeaderboard('0xaaa', 20000, 300),
+        createLeaderboard('0xbbb', 20000, 300),
+        createLeaderboard('0xccc', 20000, 300),
+        createLeaderboard('0xddd', 20000, 301)
+      ], 1000, 2000);
+
+      expect(assessments.slice(0, 3).every(a => a.reasons[0]?.code === 'IDENTICAL_ACTIVITY')).toBe(true);
+      expect(assessments[3].reasons).toHaveLength(0);
+    });
+
+    it('should combine reasons into a capped score', () => {
+      const assessments = scoreAccounts([
+        createLeaderboard('0xaaa', 1000000, 0, 100),
+        createLeaderboard('0xbbb', 1000000, 0, 100),
+        createLeaderboard('0xccc', 1000000, 0, 100)
+      ], 1000, 2000);
+
+      expect(assessments[0].reasons).toHaveLength(3);
+      expect(assessments[0].score).toBe(1);
+    });
+
+    it('should average collateral across snapshots', () => {
+      const lead = createLeaderboard('0xaaa', 0, 0);
+      lead.start[0].collateralUsd = new Decimal(100);
+      lead.ended[0].collateralUsd = new Decimal(300);
+
+      expect(getAverageCollateral(lead)!.toNumber()).toBe(200);
+      expect(getAverageCollateral(createLeaderboard('0xbbb', 0, 0))).toBeNull();
+    });
+  });
+
+  describe('calculateUserPoints with risk assessments', () => {
+    const config: CalculationConfig = {
+      liquidityRate: new Decimal(1),
+      tradeProfitRate: new Decimal(1),
+      tradeRate: new Decimal(1),
+      riskPolicy: {
+        excludeAtOrAbove: 0.8,
+        discountAtOrAbove: 0.4,
+        discountRate: new Decimal(0.5)
+      }
+    };
+
+    it('should discount or exclude points by risk score', () => {
+      const leaderboards = [
+        createLeaderboard('0xaaa', 1000, 0),
+        createLeaderboard('0xbbb', 1000, 0),
+        createLeaderboard('0xccc', 1000, 0)
+      ];
+      const riskAssessments = [
+        { account: '0xaaa', score: 0, reasons: [] },
+        { account: '0xbbb', score: 0.4, reasons: [{ code: 'LOW_PNL_HIGH_VOLUME' as const, detail: '' }] },
+        { account: '0xccc', score: 1, reasons: [{ code: 'IDENTICAL_ACTIVITY' as const, detail: '' }] }
+      ];
+
+      const results = calculateUserPoints(leaderboards, config, 1000, 2000, true, { riskAssessments });
+
+      expect(results[0].volume_usd.toNumber()).toBe(1000);
+      expect(results[1].volume_usd.toNumber()).toBe(500);
+      expect(results[1].risk_deducted_points.toNumber()).toBe(500);
+      expect(results[1].risk!.score).toBe(0.4);
+      expect(results[2].volume_usd.toNumber()).toBe(0);
+      expect(results[2].risk_deducted_points.toNumber()).toBe(1000);
+    });
+
+    it('should attach assessments without a policy but keep points', () => {
+      const leaderboards = [createLeaderboard('0xaaa', 1000, 0)];
+      const { riskPolicy, ...withoutPolicy } = config;
+
+      const results = calculateUserPoints(leaderboards, withoutPolicy, 1000, 2000, true, {
+        riskAssessments: [{ account: '0xAAA', score: 1, reasons: [] }]
+      });
+
+      expect(results[0].risk!.score).toBe(1);
+      expect(results[0].volume_usd.toNumber()).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import Decimal from 'decimal.js';
+import {
+  PerpLeaderboard,
+  calculateSnapshotDelta
+} from './index';
+import { getAverageCollateral } from './collateral-weighting';
+
+/**
+ * Wash-trading and sybil risk scoring over leaderboard data
+ */
+
+export type RiskReasonCode = 'LOW_PNL_HIGH_VOLUME' | 'HIGH_TURNOVER' | 'IDENTICAL_ACTIVITY';
+
+export interface RiskReason {
+  code: RiskReasonCode;
+  detail: string;
+}
+
+export interface RiskAssessment {
+  account: string;
+  score: number; // 0 (no risk signals) to 1
+  reasons: RiskReason[];
+}
+
+export interface RiskScoringConfig {
+  minVolume: Decimal;           // Volume below this is never flagged as wash trading
+  maxPnlRatio: Decimal;         // |net PnL| / volume below this is suspicious
+  maxTurnover: Decimal;         // Volume / average collateral above this is implausible
+  minGroupSize: number;         // Accounts sharing one activity fingerprint to form a group
+  fingerprintDecimals: number;  // Rounding applied to deltas before fingerprinting
+  weights: Record<RiskReasonCode, number>;
+}
+
+export const DEFAULT_RISK_SCORING_CONFIG: RiskScoringConfig = {
+  minVolume: new Decimal(10000),
+  maxPnlRatio: new Decimal(0.0005),
+  maxTurnover: new Decimal(500),
+  minGroupSize: 3,
+  fingerprintDecimals: 2,
+  weights: {
+    LOW_PNL_HIGH_VOLUME: 0.4,
+    HIGH_TURNOVER: 0.3,
+    IDENTICAL_ACTIVITY: 0.5
+  }
+};
+
+/**
+ * Score every account for wash-trading and sybil signals within the epoch
+ *
+ * @param leaderboards Leaderboard data for the epoch
+ * @param startTime Epoch start
+ * @param stopTime Epoch end
+ * @param config Scoring thresholds, merged over the defaults
+ * @returns One assessment per account, in input order
+ */
+export function scoreAccounts(
+  leaderboards: PerpLeaderboard[],
+  startTime: number,
+  stopTime: number,
+  config: Partial<RiskScoringConfig> = {}
+): RiskAssessment[] {
+  const settings: RiskScoringConfig = { ...DEFAULT_RISK_SCORING_CONFIG, ...config };
+  const fingerprints = new Map<string, number[]>();
+
+  const assessments = leaderboards.map((lead, index) => {
+    const reasons: RiskReason[] = [];
+    const volume = calculateSnapshotDelta(lead, 'tradingVolume', startTime, stopTime);
+    const conditionVolume = calculateSnapshotDelta(lead, 'conditionTradeVolume', startTime, stopTime);
+    const swap = calculateSnapshotDelta(lead, 'swap', startTime, stopTime);
+    const netProfit = calculateSnapshotDelta(lead, 'netProfit', startTime, stopTime);
+
+    if (volume.gte(settings.minVolume) && volume.gt(0)) {
+      const pnlRatio = netProfit.abs().div(volume);
+      if (pnlRatio.lt(settings.maxPnlRatio)) {
+        reasons.push({
+          code: 'LOW_PNL_HIGH_VOLUME',
+          detail: `Net PnL ${netProfit.toFixed(2)} on volume ${volume.toFixed(2)} (ratio ${pnlRatio.toSignificantDigits(4)})`
+        });
+      }
+    }
+
+    const collateral = getAverageCollateral(lead);
+    if (collateral && volume.gt(0)) {
+      const turnover = volume.div(collateral);
+      if (turnover.gt(settings.maxTurnover)) {
+        reasons.push({
+          code: 'HIGH_TURNOVER',
+          detail: `Volume is ${turnover.toFixed(0)}x average collateral ${collateral.toFixed(2)}`
+        });
+      }
+    }
+
+    const deltas = [volume, conditionVolume, swap, netProfit];
+    if (deltas.some(delta => !delta.isZero())) {
+      const fingerprint = deltas
+        .map(delta => delta.toDecimalPlaces(settings.fingerprintDecimals).toFixed(settings.fingerprintDecimals))
+        .join('|');
+      const group = fingerprints.get(fingerprint) || [];
+      group.push(index);
+      fingerprints.set(fingerprint, group);
+    }
+
+    return { account: lead.account, score: 0, reasons };
+  });
+
+  for (const group of fingerprints.values()) {
+    if (group.length < settings.minGroupSize) continue;
+    for (const index of group) {
+      assessments[index].reasons.push({
+        code: 'IDENTICAL_ACTIVITY',
+        detail: `Identical epoch activity to ${group.length - 1} other accounts`
+      });
+    }
+  }
+
+  for (const assessment of assessments) {
+    const score = assessment.reasons.reduce((sum, reason) => sum + settings.weights[reason.code], 0);
+    assessment.score = Math.min(1, Math.round(score * 1e6) / 1e6);
+  }
+
+  return assessments;
+}
@@ -0,0 +1,115 @@
+import Decimal from 'decimal.js';
+import * as path from 'path';
+import {
+  parseSeasonConfig,
+  loadSeasonConfig,
+  resolveSeasonRules,
+  SeasonConfigError,
+  SeasonConfigJson,
+  SeasonPeriodJson
+} from './season-config';
+
+describe('Season Config', () => {
+  const createPeriod = (effectiveFrom: number, effectiveTo?: number, trade: string = '1'): SeasonPeriodJson => ({
+    effectiveFrom,
+    effectiveTo,
+    rates: {
+      liquidityPerHour: '0.36',
+      trade,
+      tradeProfit: '1'
+    }
+  });
+
+  const createSeason = (...periods: SeasonPeriodJson[]): SeasonConfigJson => ({
+    version: 1,
+    season: 'test-season',
+    periods
+  });
+
+  it('should parse rates, fee model, caps and eligibility', () => {
+    const season = parseSeasonConfig(createSeason({
+      ...createPeriod(1000),
+      feeModel: {
+        type: 'tiered',
+        tiers: [{ minVolume: '0', rates: { trade: '0.002', swap: '0.003' } }]
+      },
+      caps: { volume: '1500', total: '5000' },
+      eligibility: { minTradeVolume: '100' }
+    }));
+
+    const config = season.periods[0].config;
+    expect(config.liquidityRate.toNumber()).toBe(0.0001);
+    expect(config.tradeRate.toNumber()).toBe(1);
+    expect(config.feeModel).toEqual({
+      type: 'tiered',
+      tiers: [{ minVolume: new Decimal(0), rates: { trade: new Decimal(0.002), swap: new Decimal(0.003), conditionTrade: undefined } }]
+    });
+    expect(config.caps!.volume!.toNumber()).toBe(1500);
+    expect(config.caps!.total!.toNumber()).toBe(5000);
+    expect(config.eligibility!.minTradeVolume!.toNumber()).toBe(100);
+  });
+
+  it('should resolve the rules in force for a window', () => {
+    const season = parseSeasonConfig(createSeason(
+      createPeriod(5000, undefined, '3'),
+      createPeriod(1000, 2999, '1'),
+      createPeriod(3000, 4999, '2')
+    ));
+
+    expect(resolveSeasonRules(season, 1000, 2999).tradeRate.toNumber()).toBe(1);
+    expect(resolveSeasonRules(season, 3600, 4000).tradeRate.toNumber()).toBe(2);
+    expect(resolveSeasonRules(season, 100000, 200000).tradeRate.toNumber()).toBe(3);
+  });
+
+  it('should reject windows spanning a rule change or before the season', () => {
+    const season = parseSeasonConfig(createSeason(createPeriod(1000, 2999), createPeriod(3000)));
+
+    expect(() => resolveSeasonRules(season, 2000, 3999)).toThrow(SeasonConfigError);
+    expect(() => resolveSeasonRules(season, 0, 999)).toThrow('No single period');
+  });
+
+  it('should reject overlapping periods', () => {
+    expect(() => parseSeasonConfig(createSeason(createPeriod(1000, 2999), createPeriod(2500))))
+      .toThrow('overlaps');
+  });
+
+  it('should reject gaps between periods', () => {
+    expect(() => parseSeasonConfig(createSeason(createPeriod(1000, 2999), createPeriod(3600))))
+      .toThrow('Gap between period ending 2999 and period starting 3600');
+  });
+
+  it('should reject an open-ended period that is not last', () => {
+    expect(() => parseSeasonConfig(createSeason(createPeriod(1000), createPeriod(3000))))
+      .toThrow('has no effectiveTo');
+  });
+
+  it('should collect every invalid value', () => {
+    try {
+      parseSeasonConfig(createSeason({
+        ...createPeriod(1000),
+        rates: { liquidityPerHour: 'abc', trade: '-1', tradeProfit: '1' },
+        caps: { bonus: '10' }
+      }));
+      fail('Expected SeasonConfigError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(SeasonConfigError);
+      expect((error as SeasonConfigError).issues).toEqual([
+        'periods[0].rates.liquidityPerHour is not a valid number: abc',
+        'periods[0].rates.trade must be a non-negative number: -1',
+        'periods[0].caps.bonus is not a point category'
+      ]);
+    }
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => parseSeasonConfig({ ...createSeason(createPeriod(1000)), version: 2 }))
+      .toThrow('Unsupported season config version 2');
+  });
+
+  it('should load the bundled season file', async () => {
+    const season = await loadSeasonConfig(path.join(__dirname, '..', 'seasons', 'season-1.json'));
+
+    expect(season.season).toBe('season-1');
+    expect(resolveSeasonRules(season, 1759190400, 1759247999).tradeRate.toNumber()).toBe(5);
+  });
+});
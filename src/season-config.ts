@@ -0,0 +1,274 @@
+import Decimal from 'decimal.js';
+import { readFile } from 'fs/promises';
+import { CalculationConfig, PointCaps, EligibilityRules, POINT_CATEGORIES } from './index';
+import { FeeModel, FeeRates } from './fee-model';
+
+/**
+ * Versioned, effective-dated season rules loaded from JSON
+ *
+ * A season is a list of periods. Each period defines the calculation rules in force
+ * from effectiveFrom to effectiveTo (both inclusive, unix seconds). Periods must be
+ * contiguous: no overlaps and no gaps. Only the last period may omit effectiveTo.
+ */
+
+export const SEASON_CONFIG_VERSION = 1;
+
+// Raw JSON shapes (decimal values as strings)
+export interface SeasonRatesJson {
+  liquidityPerHour: string;
+  trade: string;
+  tradeProfit: string;
+  conditionTrade?: string;
+  swap?: string;
+}
+
+export interface FeeRatesJson {
+  trade: string;
+  conditionTrade?: string;
+  swap?: string;
+}
+
+export type FeeModelJson =
+  | { type: 'flat'; rates: FeeRatesJson }
+  | { type: 'tiered'; tiers: Array<{ minVolume: string; rates: FeeRatesJson }> };
+
+export interface SeasonPeriodJson {
+  effectiveFrom: number;
+  effectiveTo?: number;
+  rates: SeasonRatesJson;
+  feeModel?: FeeModelJson;
+  caps?: Record<string, string>;
+  eligibility?: {
+    minTradeVolume?: string;
+    minLiquidityIntegral?: string;
+  };
+}
+
+export interface SeasonConfigJson {
+  version: number;
+  season: string;
+  periods: SeasonPeriodJson[];
+}
+
+// Parsed season config
+export interface SeasonPeriod {
+  effectiveFrom: number;
+  effectiveTo?: number;
+  config: CalculationConfig;
+}
+
+export interface SeasonConfig {
+  version: number;
+  season: string;
+  periods: SeasonPeriod[];
+}
+
+export class SeasonConfigError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}:\n  - ${issues.join('\n  - ')}` : message);
+    this.name = 'SeasonConfigError';
+  }
+}
+
+/**
+ * Parse a non-negative decimal string, recording an issue when invalid
+ */
+function parseDecimal(value: unknown, path: string, issues: string[]): Decimal {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    issues.push(`${path} must be a decimal string`);
+    return new Decimal(0);
+  }
+  try {
+    const parsed = new Decimal(value);
+    if (!parsed.isFinite() || parsed.isNegative()) {
+      issues.push(`${path} must be a non-negative number: ${value}`);
+    }
+    return parsed;
+  } catch {
+    issues.push(`${path} is not a valid number: ${value}`);
+    return new Decimal(0);
+  }
+}
+
+function parseOptionalDecimal(value: unknown, path: string, issues: string[]): Decimal | undefined {
+  return value === undefined ? undefined : parseDecimal(value, path, issues);
+}
+
+function parseFeeRates(rates: FeeRatesJson | undefined, path: string, issues: string[]): FeeRates {
+  if (!rates) {
+    issues.push(`${path} is required`);
+    return { trade: new Decimal(0) };
+  }
+  return {
+    trade: parseDecimal(rates.trade, `${path}.trade`, issues),
+    conditionTrade: parseOptionalDecimal(rates.conditionTrade, `${path}.conditionTrade`, issues),
+    swap: parseOptionalDecimal(rates.swap, `${path}.swap`, issues)
+  };
+}
+
+function parseFeeModel(model: FeeModelJson, path: string, issues: string[]): FeeModel | undefined {
+  switch (model.type) {
+    case 'flat':
+      return { type: 'flat', rates: parseFeeRates(model.rates, `${path}.rates`, issues) };
+    case 'tiered':
+      if (!Array.isArray(model.tiers) || model.tiers.length === 0) {
+        issues.push(`${path}.tiers must be a non-empty array`);
+        return undefined;
+      }
+      return {
+        type: 'tiered',
+        tiers: model.tiers.map((tier, index) => ({
+          minVolume: parseDecimal(tier.minVolume, `${path}.tiers[${index}].minVolume`, issues),
+          rates: parseFeeRates(tier.rates, `${path}.tiers[${index}].rates`, issues)
+        }))
+      };
+    default:
+      issues.push(`${path}.type must be 'flat' or 'tiered'`);
+      return undefined;
+  }
+}
+
+function parseCaps(caps: Record<string, string>, path: string, issues: string[]): PointCaps {
+  const parsed: PointCaps = {};
+  for (const [key, value] of Object.entries(caps)) {
+    if (key !== 'total' && !(POINT_CATEGORIES as string[]).includes(key)) {
+      issues.push(`${path}.${key} is not a point category`);
+      continue;
+    }
+    parsed[key as keyof PointCaps] = parseDecimal(value, `${path}.${key}`, issues);
+  }
+  return parsed;
+}
+
+function parsePeriod(period: SeasonPeriodJson, path: string, issues: string[]): SeasonPeriod {
+  if (!Number.isInteger(period.effectiveFrom)) {
+    issues.push(`${path}.effectiveFrom must be a unix timestamp`);
+  }
+  if (period.effectiveTo !== undefined) {
+    if (!Number.isInteger(period.effectiveTo)) {
+      issues.push(`${path}.effectiveTo must be a unix timestamp`);
+    } else if (period.effectiveTo < period.effectiveFrom) {
+      issues.push(`${path}.effectiveTo is before effectiveFrom`);
+    }
+  }
+
+  const rates = period.rates || {} as SeasonRatesJson;
+  if (!period.rates) {
+    issues.push(`${path}.rates is required`);
+  }
+
+  const config: CalculationConfig = {
+    liquidityRate: parseDecimal(rates.liquidityPerHour, `${path}.rates.liquidityPerHour`, issues).div(3600),
+    tradeRate: parseDecimal(rates.trade, `${path}.rates.trade`, issues),
+    tradeProfitRate: parseDecimal(rates.tradeProfit, `${path}.rates.tradeProfit`, issues),
+    conditionTradeRate: parseOptionalDecimal(rates.conditionTrade, `${path}.rates.conditionTrade`, issues),
+    swapRate: parseOptionalDecimal(rates.swap, `${path}.rates.swap`, issues)
+  };
+  if (period.feeModel) {
+    config.feeModel = parseFeeModel(period.feeModel, `${path}.feeModel`, issues);
+  }
+  if (period.caps) {
+    config.caps = parseCaps(period.caps, `${path}.caps`, issues);
+  }
+  if (period.eligibility) {
+    const eligibility: EligibilityRules = {
+      minTradeVolume: parseOptionalDecimal(period.eligibility.minTradeVolume, `${path}.eligibility.minTradeVolume`, issues),
+      minLiquidityIntegral: parseOptionalDecimal(period.eligibility.minLiquidityIntegral, `${path}.eligibility.minLiquidityIntegral`, issues)
+    };
+    config.eligibility = eligibility;
+  }
+
+  return {
+    effectiveFrom: period.effectiveFrom,
+    effectiveTo: period.effectiveTo,
+    config
+  };
+}
+
+/**
+ * Validate that periods are contiguous, without overlaps or gaps
+ */
+function validatePeriodSequence(periods: SeasonPeriod[], issues: string[]): void {
+  for (let i = 1; i < periods.length; i++) {
+    const previous = periods[i - 1];
+    const current = periods[i];
+    if (previous.effectiveTo === undefined) {
+      issues.push(`Period starting ${previous.effectiveFrom} has no effectiveTo but is followed by period starting ${current.effectiveFrom}`);
+      continue;
+    }
+    if (current.effectiveFrom <= previous.effectiveTo) {
+      issues.push(`Period starting ${current.effectiveFrom} overlaps period ending ${previous.effectiveTo}`);
+    } else if (current.effectiveFrom > previous.effectiveTo + 1) {
+      issues.push(`Gap between period ending ${previous.effectiveTo} and period starting ${current.effectiveFrom}`);
+    }
+  }
+}
+
+/**
+ * Parse and validate a season config JSON object
+ */
+export function parseSeasonConfig(raw: unknown): SeasonConfig {
+  const json = raw as SeasonConfigJson;
+  if (!json || typeof json !== 'object') {
+    throw new SeasonConfigError('Season config must be an object');
+  }
+  if (json.version !== SEASON_CONFIG_VERSION) {
+    throw new SeasonConfigError(`Unsupported season config version ${json.version}, expected ${SEASON_CONFIG_VERSION}`);
+  }
+  if (!Array.isArray(json.periods) || json.periods.length === 0) {
+    throw new SeasonConfigError('Season config must define at least one period');
+  }
+
+  const issues: string[] = [];
+  if (!json.season) {
+    issues.push('season name is required');
+  }
+  const periods = json.periods
+    .map((period, index) => parsePeriod(period, `periods[${index}]`, issues))
+    .sort((a, b) => a.effectiveFrom - b.effectiveFrom);
+  validatePeriodSequence(periods, issues);
+
+  if (issues.length > 0) {
+    throw new SeasonConfigError(`Invalid season config ${json.season || ''}`.trim(), issues);
+  }
+
+  return {
+    version: json.version,
+    season: json.season,
+    periods
+  };
+}
+
+/**
+ * Load and validate a season config JSON file
+ */
+export async function loadSeasonConfig(path: string): Promise<SeasonConfig> {
+  const content = await readFile(path, 'utf8');
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new SeasonConfigError(`Failed to parse season config ${path}: ${(error as Error).message}`);
+  }
+  return parseSeasonConfig(raw);
+}
+
+/**
+ * Resolve the calculation rules in force for an epoch window.
+ * The whole window must fall inside a single period.
+ */
+export function resolveSeasonRules(
+  season: SeasonConfig,
+  startTime: number,
+  stopTime: number
+): CalculationConfig {
+  const period = season.periods.find(p =>
+    p.effectiveFrom <= startTime && (p.effectiveTo === undefined || stopTime <= p.effectiveTo)
+  );
+  if (!period) {
+    throw new SeasonConfigError(
+      `No single period of season ${season.season} covers the window ${startTime} - ${stopTime}`
+    );
+  }
+  return period.config;
+}
@@ -1,53 +1,145 @@
-import { GraphQLClient } from 'graphql-request';
 import {
   SubgraphConfig,
   DEFAULT_SUBGRAPH_CONFIG,
   SubgraphQueryVariables,
   SubgraphQueryResponse,
   SubgraphLeaderboardResponse,
+  SubgraphLiquiditySnapResponse,
+  SubgraphLiquidityHistoryResponse,
+  SubgraphMetaResponse,
+  BlockInfo,
+  IndexingStatus,
+  FinalityPolicy,
+  EpochFinality,
   FetchResult,
+  SnapshotResult,
+  SignalOptions,
   PaginationInfo,
-  LEADERBOARD_QUERY,
+  IdRange,
+  buildLeaderboardQuery,
+  buildLiquidityHistoryQuery,
+  partitionIdRange,
+  META_QUERY,
+  BLOCK_META_QUERY,
+  PAGE_SIZE,
+  HISTORY_PAGE_SIZE,
   SubgraphError,
   RateLimitError,
+  TimeoutError,
+  IndexingLagError,
   NetworkError
 } from './subgraph-types';
+import { EpochWindow } from './epoch';
+import { TokenBucketLimiter, parseRetryAfter } from './rate-limiter';
+import { SubgraphTransport, createGraphQLRequestTransport } from './transport';
+
+/**
+ * Error for an aborted signal: its TimeoutError, or an ABORTED SubgraphError
+ */
+function toAbortError(signal: AbortSignal): SubgraphError {
+  return signal.reason instanceof SubgraphError
+    ? signal.reason
+    : new SubgraphError('Request was aborted', 'ABORTED');
+}
+
+/**
+ * Wait before a retry; aborting clears the timer and rejects right away
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toAbortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface Deadline {
+  signal?: AbortSignal;
+  dispose(): void;  // Clear the timer and stop following the parent signal
+}
+
+/**
+ * Signal that aborts with the parent signal, or with a TimeoutError after timeoutMs
+ */
+function createDeadline(parent: AbortSignal | undefined, timeoutMs: number | undefined, what: string): Deadline {
+  if (!timeoutMs) {
+    return { signal: parent, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`${what} did not complete within ${timeoutMs} ms`, timeoutMs)),
+    timeoutMs
+  );
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+}
 
 /**
  * SubgraphClient - A robust client for fetching data from The Graph subgraph
  * with automatic pagination, rate limiting, and error handling
  */
 export class SubgraphClient {
-  private client: GraphQLClient;
+  private transport: SubgraphTransport;
   private config: SubgraphConfig;
-  private lastRequestTime: number = 0;
-  private requestQueue: Array<() => Promise<void>> = [];
-  private isProcessingQueue: boolean = false;
+  private limiter: TokenBucketLimiter;
+  private ownsLimiter: boolean;
+  private blockTimestamps = new Map<number, number>();  // Seen in _meta, to tell final pages apart
 
-  constructor(config: Partial<SubgraphConfig> = {}) {
+  /**
+   * @param limiter Limiter to share with other clients hitting the same endpoint;
+   *                by default the client builds its own from the config
+   */
+  constructor(config: Partial<SubgraphConfig> = {}, limiter?: TokenBucketLimiter) {
     this.config = { ...DEFAULT_SUBGRAPH_CONFIG, ...config };
-    this.client = new GraphQLClient(this.config.endpoint, {
-      headers: {
-        'Content-Type': 'application/json',
-      },
-    });
+    this.transport = this.config.transport || createGraphQLRequestTransport(this.config.endpoint);
+    this.ownsLimiter = !limiter;
+    this.limiter = limiter || new TokenBucketLimiter(this.getLimiterOptions());
+  }
+
+  private getLimiterOptions() {
+    return {
+      requestsPerSecond: this.config.requestsPerSecond,
+      burst: this.config.burst,
+      concurrency: this.config.concurrency
+    };
   }
 
   /**
-   * Rate limiting helper - ensures we don't exceed the specified requests per second
+   * Run a public call under config.totalTimeout, retries included
    */
-  private async waitForRateLimit(): Promise<void> {
-    if (!this.config.requestsPerSecond) return;
-
-    const minInterval = 1000 / this.config.requestsPerSecond;
-    const timeSinceLastRequest = Date.now() - this.lastRequestTime;
-    
-    if (timeSinceLastRequest < minInterval) {
-      const waitTime = minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+  private async withDeadline<T>(signal: AbortSignal | undefined, task: (signal?: AbortSignal) => Promise<T>): Promise<T> {
+    const deadline = createDeadline(signal, this.config.totalTimeout, 'Subgraph call');
+    try {
+      return await task(deadline.signal);
+    } finally {
+      deadline.dispose();
     }
-    
-    this.lastRequestTime = Date.now();
+  }
+
+  private getRetryDelay(retryCount: number): number {
+    return (this.config.retryDelay || 1000) * Math.pow(2, retryCount);
   }
 
   /**
@@ -56,25 +148,55 @@ export class SubgraphClient {
   private async executeQuery<T>(
     query: string,
     variables: Record<string, any>,
+    signal?: AbortSignal,
     retryCount = 0
   ): Promise<T> {
+    let timedOut = false;
     try {
-      await this.waitForRateLimit();
-      
-      const result = await this.client.request<T>(query, variables);
+      const result = await this.limiter.schedule(async () => {
+        // The request timeout starts once the limiter lets the request go
+        const attempt = createDeadline(signal, this.config.requestTimeout, 'Request');
+        try {
+          return await this.transport.request<T>({ query, variables, signal: attempt.signal });
+        } finally {
+          timedOut = !!attempt.signal?.aborted && !signal?.aborted;
+          attempt.dispose();
+        }
+      }, signal);
       return result;
     } catch (error: any) {
+      // Aborted by the caller or config.totalTimeout: never retried
+      if (signal?.aborted) {
+        throw toAbortError(signal);
+      }
+
+      if (timedOut) {
+        if (retryCount < (this.config.maxRetries || 3)) {
+          await delay(this.getRetryDelay(retryCount), signal);
+          return this.executeQuery(query, variables, signal, retryCount + 1);
+        }
+        throw new TimeoutError(`Request did not complete within ${this.config.requestTimeout} ms`, this.config.requestTimeout!);
+      }
+
       // Handle different types of errors
       if (error.response?.status === 429) {
-        throw new RateLimitError('Rate limit exceeded');
+        const headers = error.response.headers;
+        const retryAfter = parseRetryAfter(
+          typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after']
+        );
+        if (retryCount < (this.config.maxRetries || 3)) {
+          // Hold back every request of the limiter, not just this one
+          this.limiter.pauseFor(retryAfter ?? this.getRetryDelay(retryCount));
+          return this.executeQuery(query, variables, signal, retryCount + 1);
+        }
+        throw new RateLimitError('Rate limit exceeded', retryAfter);
       }
       
       if (error.response?.status >= 500) {
         // Server error - retry if we have retries left
         if (retryCount < (this.config.maxRetries || 3)) {
-          const delay = (this.config.retryDelay || 1000) * Math.pow(2, retryCount);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          return this.executeQuery(query, variables, retryCount + 1);
+          await delay(this.getRetryDelay(retryCount), signal);
+          return this.executeQuery(query, variables, signal, retryCount + 1);
         }
         throw new NetworkError(`Server error: ${error.message}`, error.response.status);
       }
@@ -85,36 +207,253 @@ export class SubgraphClient {
       
       // Network or other errors
       if (retryCount < (this.config.maxRetries || 3)) {
-        const delay = (this.config.retryDelay || 1000) * Math.pow(2, retryCount);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        return this.executeQuery(query, variables, retryCount + 1);
+        await delay(this.getRetryDelay(retryCount), signal);
+        return this.executeQuery(query, variables, signal, retryCount + 1);
       }
       
       throw new NetworkError(`Network error: ${error.message}`);
     }
   }
 
+  /**
+   * Execute a leaderboard page query through config.cache, when set. A page read at a
+   * block past epochEnded is final and cached for good; others expire.
+   */
+  private async executePageQuery(
+    query: string,
+    variables: SubgraphQueryVariables,
+    signal?: AbortSignal
+  ): Promise<SubgraphQueryResponse> {
+    const cache = this.config.cache;
+    if (!cache) {
+      return this.fetchPageResponse(query, variables, signal);
+    }
+
+    const key = { endpoint: this.config.endpoint, query, variables };
+    const cached = await cache.get<SubgraphQueryResponse>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const response = await this.fetchPageResponse(query, variables, signal);
+    const blockTimestamp = variables.block !== undefined ? await this.getBlockTimestamp(variables.block, signal) : undefined;
+    await cache.set(key, response, { final: blockTimestamp !== undefined && blockTimestamp >= variables.epochEnded });
+    return response;
+  }
+
+  /**
+   * Timestamp of a block: from an earlier _meta of this client, from the cache, or
+   * from one _meta query at the block. Block timestamps never change and are cached for good.
+   */
+  private async getBlockTimestamp(block: number, signal?: AbortSignal): Promise<number | undefined> {
+    const known = this.blockTimestamps.get(block);
+    if (known !== undefined) {
+      return known;
+    }
+
+    const cache = this.config.cache;
+    const key = { endpoint: this.config.endpoint, query: BLOCK_META_QUERY, variables: { block } };
+    let response = cache ? await cache.get<SubgraphMetaResponse>(key) : undefined;
+    if (response === undefined) {
+      response = await this.executeQuery<SubgraphMetaResponse>(BLOCK_META_QUERY, { block }, signal);
+      if (cache && response._meta?.block.timestamp != null) {
+        await cache.set(key, response, { final: true });
+      }
+    }
+
+    const timestamp = response._meta?.block.timestamp ?? undefined;
+    if (timestamp !== undefined) {
+      this.blockTimestamps.set(block, timestamp);
+    }
+    return timestamp;
+  }
+
+  /**
+   * Execute a leaderboard page query and complete liquidity histories the page cut off
+   */
+  private async fetchPageResponse(
+    query: string,
+    variables: SubgraphQueryVariables,
+    signal?: AbortSignal
+  ): Promise<SubgraphQueryResponse> {
+    const response = await this.executeQuery<SubgraphQueryResponse>(query, variables, signal);
+    for (const record of response.data || []) {
+      const history = record.liquidity?.history;
+      if (history && history.length >= HISTORY_PAGE_SIZE) {
+        await this.completeLiquidityHistory(record.account, history, variables, signal);
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Append the rest of a full liquidity history page, one page at a time, at the
+   * block of the leaderboard page. Each page starts at the last timestamp seen and
+   * snaps already seen are dropped.
+   */
+  private async completeLiquidityHistory(
+    account: string,
+    history: SubgraphLiquiditySnapResponse[],
+    variables: SubgraphQueryVariables,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const query = buildLiquidityHistoryQuery({ blockPinned: variables.block !== undefined });
+    const seen = new Set(history.map(snap => snap.id));
+    let page = history;
+
+    while (page.length >= HISTORY_PAGE_SIZE) {
+      const after = parseInt(page[page.length - 1].timestamp, 10);
+      const response = await this.executeQuery<SubgraphLiquidityHistoryResponse>(query, {
+        account,
+        after,
+        epochEnded: variables.epochEnded,
+        ...(variables.block !== undefined ? { block: variables.block } : {})
+      }, signal);
+      page = response.data?.liquidity?.history || [];
+
+      const added = page.filter(snap => !seen.has(snap.id));
+      if (added.length === 0 && page.length >= HISTORY_PAGE_SIZE) {
+        throw new SubgraphError(
+          `More than ${HISTORY_PAGE_SIZE} liquidity snaps of ${account} share timestamp ${after}`,
+          'HISTORY_ERROR'
+        );
+      }
+      for (const snap of added) {
+        seen.add(snap.id);
+        history.push(snap);
+      }
+    }
+  }
+
+  /**
+   * Get the latest indexed block, whether indexing has failed and how far it lags behind now.
+   * With options.block, the status is read at that block instead of the latest one.
+   */
+  async getIndexingStatus(options: SignalOptions & { block?: number } = {}): Promise<IndexingStatus> {
+    const response = await this.withDeadline(options.signal, signal =>
+      options.block !== undefined
+        ? this.executeQuery<SubgraphMetaResponse>(BLOCK_META_QUERY, { block: options.block }, signal)
+        : this.executeQuery<SubgraphMetaResponse>(META_QUERY, {}, signal)
+    );
+    const block = response._meta?.block;
+    if (!block) {
+      throw new SubgraphError('Subgraph did not return _meta.block', 'META_ERROR');
+    }
+    const timestamp = block.timestamp ?? undefined;
+    if (timestamp !== undefined) {
+      this.blockTimestamps.set(block.number, timestamp);
+    }
+    return {
+      block: { number: block.number, timestamp },
+      hasIndexingErrors: response._meta!.hasIndexingErrors,
+      lagSeconds: timestamp === undefined ? null : Math.max(0, Math.floor(Date.now() / 1000) - timestamp)
+    };
+  }
+
+  /**
+   * Get the latest block the subgraph has indexed
+   */
+  async getLatestBlock(options: SignalOptions = {}): Promise<BlockInfo> {
+    return (await this.getIndexingStatus(options)).block;
+  }
+
+  /**
+   * Decide whether an epoch can be calculated as final: the subgraph must have
+   * indexed a block at or after epochEnded and report no indexing errors. With
+   * options.block, the decision is made on that block's timestamp.
+   *
+   * @param policy 'refuse' throws an IndexingLagError for an epoch that is not final,
+   *               'provisional' returns it with final: false
+   */
+  async getEpochFinality(
+    epochEnded: number,
+    policy: FinalityPolicy = 'refuse',
+    options: SignalOptions & { block?: number } = {}
+  ): Promise<EpochFinality> {
+    const status = await this.getIndexingStatus(options);
+    const timestamp = status.block.timestamp;
+    const final = timestamp !== undefined && timestamp >= epochEnded && !status.hasIndexingErrors;
+
+    if (!final && policy === 'refuse') {
+      const reason = status.hasIndexingErrors
+        ? `subgraph reports indexing errors at block ${status.block.number}`
+        : timestamp === undefined
+          ? `subgraph did not report the timestamp of block ${status.block.number}`
+          : options.block !== undefined
+            ? `block ${status.block.number} is at ${timestamp}, ${epochEnded - timestamp}s short`
+            : `subgraph has indexed up to ${timestamp} (block ${status.block.number}), ${epochEnded - timestamp}s short`;
+      throw new IndexingLagError(`Epoch ending ${epochEnded} is not final: ${reason}`, epochEnded, status);
+    }
+    return { final, status };
+  }
+
+  /**
+   * Block to pin a multi-page fetch to: the caller's block, else the latest
+   * indexed block, or none when pinning is disabled
+   *
+   * With config.cache and epochEnded, the first block found indexed past epochEnded
+   * without indexing errors is kept in the cache and reused, so re-runs of a final epoch read the same block
+   * and are served from cached pages.
+   */
+  async resolveBlock(
+    block?: number,
+    options: SignalOptions & { epochEnded?: number } = {}
+  ): Promise<number | undefined> {
+    if (block !== undefined) {
+      return block;
+    }
+    if (this.config.pinBlock === false) {
+      return undefined;
+    }
+
+    const cache = options.epochEnded !== undefined ? this.config.cache : undefined;
+    const key = { endpoint: this.config.endpoint, query: META_QUERY, variables: { epochEnded: options.epochEnded } };
+    const pinned = cache ? await cache.get<BlockInfo>(key) : undefined;
+    if (pinned !== undefined) {
+      if (pinned.timestamp !== undefined) {
+        this.blockTimestamps.set(pinned.number, pinned.timestamp);
+      }
+      return pinned.number;
+    }
+
+    const status = await this.getIndexingStatus(options);
+    const latest = status.block;
+    if (cache && latest.timestamp !== undefined && latest.timestamp >= options.epochEnded! && !status.hasIndexingErrors) {
+      await cache.set(key, latest, { final: true });
+    }
+    return latest.number;
+  }
+
   /**
    * Fetch a single page of leaderboard data
    */
   async fetchPage(
     epochBegin: number,
     epochEnded: number,
-    skip: number = 0
+    skip: number = 0,
+    block?: number,
+    options: SignalOptions = {}
   ): Promise<FetchResult> {
     const variables: SubgraphQueryVariables = {
       skip,
       epochBegin,
       epochEnded
     };
+    if (block !== undefined) {
+      variables.block = block;
+    }
 
-    const response = await this.executeQuery<SubgraphQueryResponse>(
-      LEADERBOARD_QUERY,
-      variables
+    const query = buildLeaderboardQuery({
+      liquidityHistory: this.config.includeLiquidityHistory,
+      pagination: 'skip',
+      blockPinned: block !== undefined
+    });
+    const response = await this.withDeadline(options.signal, signal =>
+      this.executePageQuery(query, variables, signal)
     );
 
     const data = response.data || [];
-    const hasMore = data.length === 1000; // If we got exactly 1000 records, there might be more
+    const hasMore = data.length === PAGE_SIZE; // If we got a full page, there might be more
 
     return {
       data,
@@ -122,65 +461,303 @@ export class SubgraphClient {
         skip,
         hasMore,
         totalFetched: skip + data.length
-      }
+      },
+      block
     };
   }
 
   /**
-   * Fetch all leaderboard data with automatic pagination
+   * Fetch a single page of leaderboard data, ordered by id, starting after lastId
    */
-  async fetchAllData(
+  async fetchPageByCursor(
     epochBegin: number,
     epochEnded: number,
-    onProgress?: (pagination: PaginationInfo) => void
-  ): Promise<SubgraphLeaderboardResponse[]> {
-    const allData: SubgraphLeaderboardResponse[] = [];
-    let skip = 0;
-    let hasMore = true;
+    lastId: string = '',
+    block?: number,
+    upperId?: string,
+    options: SignalOptions = {}
+  ): Promise<FetchResult> {
+    const variables: SubgraphQueryVariables = {
+      lastId,
+      epochBegin,
+      epochEnded
+    };
+    if (block !== undefined) {
+      variables.block = block;
+    }
+    if (upperId !== undefined) {
+      variables.upperId = upperId;
+    }
 
-    console.log(`🚀 Starting data fetch from ${new Date(epochBegin * 1000).toISOString()} to ${new Date(epochEnded * 1000).toISOString()}`);
+    const query = buildLeaderboardQuery({
+      liquidityHistory: this.config.includeLiquidityHistory,
+      pagination: 'cursor',
+      blockPinned: block !== undefined,
+      bounded: upperId !== undefined
+    });
+    const response = await this.withDeadline(options.signal, signal =>
+      this.executePageQuery(query, variables, signal)
+    );
 
-    while (hasMore) {
-      try {
-        console.log(`📦 Fetching batch ${Math.floor(skip / 1000) + 1} (skip: ${skip})`);
-        
-        const result = await this.fetchPage(epochBegin, epochEnded, skip);
-        
-        allData.push(...result.data);
-        hasMore = result.pagination.hasMore;
-        skip += 1000;
+    const data = response.data || [];
+    const cursor = data.length > 0 ? data[data.length - 1].account : lastId;
+    if (data.length > 0 && cursor <= lastId) {
+      throw new SubgraphError(`Cursor did not advance past ${lastId}`, 'CURSOR_ERROR');
+    }
+
+    return {
+      data,
+      pagination: {
+        skip: data.length,
+        cursor,
+        hasMore: data.length === PAGE_SIZE,
+        totalFetched: data.length
+      },
+      block
+    };
+  }
+
+  /**
+   * Fetch the page following `fetched` records (skip) or the `cursor` id (cursor),
+   * depending on the configured pagination
+   */
+  private fetchNextPage(
+    epochBegin: number,
+    epochEnded: number,
+    fetched: number,
+    cursor: string,
+    block: number | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<FetchResult> {
+    return this.config.pagination === 'skip'
+      ? this.fetchPage(epochBegin, epochEnded, fetched, block, { signal })
+      : this.fetchPageByCursor(epochBegin, epochEnded, cursor, block, undefined, { signal });
+  }
+
+  /**
+   * Stream leaderboard data page by page. Only one page is held at a time,
+   * so memory stays bounded regardless of the number of accounts.
+   * Every page is read at the same block (see resolveBlock). config.totalTimeout
+   * covers the whole stream, including time spent by the consumer between pages.
+   */
+  async *streamPages(
+    epochBegin: number,
+    epochEnded: number,
+    onProgress?: (pagination: PaginationInfo) => void,
+    block?: number,
+    options: SignalOptions = {}
+  ): AsyncGenerator<SubgraphLeaderboardResponse[]> {
+    const deadline = createDeadline(options.signal, this.config.totalTimeout, 'Subgraph call');
+    const signal = deadline.signal;
+    try {
+      const pinnedBlock = await this.resolveBlock(block, { signal, epochEnded });
+      let skip = 0;
+      let cursor = '';
+      let totalFetched = 0;
+      let hasMore = true;
+
+      while (hasMore) {
+        // Failures reach the consumer; rate limits were already retried, honoring Retry-After
+        const result = await this.fetchNextPage(epochBegin, epochEnded, skip, cursor, pinnedBlock, signal);
+
+        totalFetched += result.data.length;
+        skip += PAGE_SIZE;
+        cursor = result.pagination.cursor || cursor;
+        // Stop once we got less than a full page (end of data)
+        hasMore = result.pagination.hasMore && result.data.length === PAGE_SIZE;
 
-        console.log(`✅ Fetched ${result.data.length} records. Total: ${allData.length}`);
-        
-        // Call progress callback if provided
         if (onProgress) {
           onProgress({
             skip,
+            cursor: this.config.pagination === 'skip' ? undefined : cursor,
             hasMore,
-            totalFetched: allData.length
+            totalFetched
           });
         }
 
-        // Break if we got less than 1000 records (end of data)
-        if (result.data.length < 1000) {
-          hasMore = false;
+        yield result.data;
+      }
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  /**
+   * Fetch all leaderboard data with automatic pagination
+   */
+  async fetchAllData(
+    window: EpochWindow,
+    onProgress?: (pagination: PaginationInfo) => void,
+    options?: SignalOptions
+  ): Promise<SubgraphLeaderboardResponse[]>;
+  async fetchAllData(
+    epochBegin: number,
+    epochEnded: number,
+    onProgress?: (pagination: PaginationInfo) => void,
+    options?: SignalOptions
+  ): Promise<SubgraphLeaderboardResponse[]>;
+  async fetchAllData(
+    epochBeginOrWindow: number | EpochWindow,
+    epochEndedOrProgress?: number | ((pagination: PaginationInfo) => void),
+    progressOrOptions?: ((pagination: PaginationInfo) => void) | SignalOptions,
+    signalOptions?: SignalOptions
+  ): Promise<SubgraphLeaderboardResponse[]> {
+    const { epochBegin, epochEnded } = typeof epochBeginOrWindow === 'number'
+      ? { epochBegin: epochBeginOrWindow, epochEnded: epochEndedOrProgress as number }
+      : epochBeginOrWindow;
+    const onProgress = typeof epochBeginOrWindow === 'number'
+      ? progressOrOptions as ((pagination: PaginationInfo) => void) | undefined
+      : epochEndedOrProgress as ((pagination: PaginationInfo) => void) | undefined;
+    const options = typeof epochBeginOrWindow === 'number'
+      ? signalOptions
+      : progressOrOptions as SignalOptions | undefined;
+
+    const snapshot = await this.fetchSnapshot(epochBegin, epochEnded, { onProgress, signal: options?.signal });
+    return snapshot.data;
+  }
+
+  /**
+   * Fetch all leaderboard data at a single block, returning the block so the
+   * calculation can be reproduced exactly
+   *
+   * @param options.block Block to read at; defaults to the latest indexed block
+   * @param options.partitions Id ranges to fetch in parallel in cursor mode; defaults to config.partitions
+   */
+  async fetchSnapshot(
+    epochBegin: number,
+    epochEnded: number,
+    options: {
+      block?: number;
+      partitions?: number;
+      onProgress?: (pagination: PaginationInfo) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<SnapshotResult> {
+    return this.withDeadline(options.signal, async signal => {
+      const block = await this.resolveBlock(options.block, { signal, epochEnded });
+      const partitions = options.partitions ?? this.config.partitions ?? 1;
+
+      console.log(`🚀 Starting data fetch from ${new Date(epochBegin * 1000).toISOString()} to ${new Date(epochEnded * 1000).toISOString()}${block !== undefined ? ` at block ${block}` : ''}`);
+
+      if (partitions > 1 && this.config.pagination !== 'skip') {
+        const data = await this.fetchPartitions(epochBegin, epochEnded, partitionIdRange(partitions), block, options.onProgress, signal);
+        console.log(`🎉 Data fetch completed! Total records: ${data.length}`);
+        return { data, block };
+      }
+
+      const allData: SubgraphLeaderboardResponse[] = [];
+      for await (const page of this.streamPages(epochBegin, epochEnded, options.onProgress, block, { signal })) {
+        allData.push(...page);
+        console.log(`✅ Fetched ${page.length} records. Total: ${allData.length}`);
+      }
+
+      console.log(`🎉 Data fetch completed! Total records: ${allData.length}`);
+      return { data: allData, block };
+    });
+  }
+
+  /**
+   * Page through each id range by cursor, all ranges in parallel. The shared limiter
+   * keeps the combined request rate and concurrency within the configured limits.
+   *
+   * @returns Records of every range, in id order
+   */
+  private async fetchPartitions(
+    epochBegin: number,
+    epochEnded: number,
+    ranges: IdRange[],
+    block: number | undefined,
+    onProgress: ((pagination: PaginationInfo) => void) | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<SubgraphLeaderboardResponse[]> {
+    let totalFetched = 0;
+    let running = ranges.length;
+    let failed = false;
+
+    const fetchRange = async (range: IdRange): Promise<SubgraphLeaderboardResponse[]> => {
+      const rangeData: SubgraphLeaderboardResponse[] = [];
+      let cursor = range.after;
+      let hasMore = true;
+
+      while (hasMore && !failed) {
+        let result: FetchResult;
+        try {
+          result = await this.fetchPageByCursor(epochBegin, epochEnded, cursor, block, range.before, { signal });
+        } catch (error) {
+          failed = true;  // Stop the other ranges from requesting further pages
+          throw error;
+        }
+        rangeData.push(...result.data);
+        cursor = result.pagination.cursor || cursor;
+        hasMore = result.pagination.hasMore;
+        totalFetched += result.data.length;
+        if (!hasMore) {
+          running--;
         }
 
-      } catch (error) {
-        console.error(`❌ Error fetching batch at skip ${skip}:`, error);
-        
-        if (error instanceof RateLimitError) {
-          console.log('⏱️  Rate limit hit, waiting before retry...');
-          await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5 seconds
-          continue; // Retry the same batch
+        console.log(`✅ Fetched ${result.data.length} records of ids ${range.after || '0x'}…${range.before || 'end'}. Total: ${totalFetched}`);
+        if (onProgress) {
+          onProgress({ skip: totalFetched, hasMore: running > 0, totalFetched });
         }
-        
-        throw error;
       }
-    }
+      return rangeData;
+    };
 
-    console.log(`🎉 Data fetch completed! Total records: ${allData.length}`);
-    return allData;
+    const results = await Promise.all(ranges.map(fetchRange));
+    return results.flat();
+  }
+
+  /**
+   * Fetch the leaderboards of the given accounts only, with `id_in` lookups of up to
+   * batchSize ids each. Batches run in parallel through the limiter and read at one block.
+   *
+   * @returns Records in the order of the first occurrence of each address; addresses
+   *          without a leaderboard are left out
+   */
+  async fetchAccounts(
+    addresses: string[],
+    epochBegin: number,
+    epochEnded: number,
+    options: {
+      block?: number;
+      batchSize?: number;   // Ids per query, default 100, at most PAGE_SIZE
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<SnapshotResult> {
+    const accounts = [...new Set(addresses.map(address => address.toLowerCase()))];
+    const batchSize = Math.max(1, Math.min(options.batchSize ?? 100, PAGE_SIZE));
+
+    return this.withDeadline(options.signal, async signal => {
+      const block = await this.resolveBlock(options.block, { signal, epochEnded });
+      const query = buildLeaderboardQuery({
+        liquidityHistory: this.config.includeLiquidityHistory,
+        accounts: true,
+        blockPinned: block !== undefined
+      });
+
+      const batches: string[][] = [];
+      for (let i = 0; i < accounts.length; i += batchSize) {
+        batches.push(accounts.slice(i, i + batchSize));
+      }
+      const responses = await Promise.all(batches.map(batch => {
+        const variables: SubgraphQueryVariables = { accounts: batch, epochBegin, epochEnded };
+        if (block !== undefined) {
+          variables.block = block;
+        }
+        return this.executePageQuery(query, variables, signal);
+      }));
+
+      const byAccount = new Map<string, SubgraphLeaderboardResponse>();
+      for (const response of responses) {
+        for (const record of response.data || []) {
+          byAccount.set(record.account.toLowerCase(), record);
+        }
+      }
+      const data = accounts
+        .map(account => byAccount.get(account))
+        .filter((record): record is SubgraphLeaderboardResponse => record !== undefined);
+      return { data, block };
+    });
   }
 
   /**
@@ -190,72 +767,94 @@ export class SubgraphClient {
     epochBegin: number;
     epochEnded: number;
     maxRecords?: number;
-    startFrom?: number;
+    startFrom?: number;   // Skip pagination only: offset of the first record
+    startAfter?: string;  // Cursor pagination only: account id to start after
+    block?: number;       // Block to read at; defaults to the latest indexed block
     onProgress?: (pagination: PaginationInfo) => void;
-    onError?: (error: Error, skip: number) => boolean; // Return true to retry, false to stop
+    onError?: (error: Error, skip: number) => boolean; // Return true to retry, false to stop; never called once aborted
+    signal?: AbortSignal;
   }): Promise<SubgraphLeaderboardResponse[]> {
     const {
       epochBegin,
       epochEnded,
       maxRecords,
       startFrom = 0,
+      startAfter = '',
       onProgress,
       onError
     } = options;
 
-    const allData: SubgraphLeaderboardResponse[] = [];
-    let skip = startFrom;
-    let hasMore = true;
+    // Each start option only means something to its own pagination; never ignore one silently.
+    // A start option that points at the first record (0 or '') is accepted under either mode
+    if (this.config.pagination === 'skip' && startAfter !== '') {
+      throw new SubgraphError('startAfter does not apply to skip pagination, use startFrom', 'INVALID_OPTIONS');
+    }
+    if (this.config.pagination !== 'skip' && startFrom !== 0) {
+      throw new SubgraphError('startFrom does not apply to cursor pagination, use startAfter', 'INVALID_OPTIONS');
+    }
+
+    return this.withDeadline(options.signal, async signal => {
+      const block = await this.resolveBlock(options.block, { signal, epochEnded });
+      const allData: SubgraphLeaderboardResponse[] = [];
+      let skip = startFrom;
+      let cursor = startAfter;
+      let hasMore = true;
 
-    while (hasMore && (!maxRecords || allData.length < maxRecords)) {
-      try {
-        const result = await this.fetchPage(epochBegin, epochEnded, skip);
+      while (hasMore && (!maxRecords || allData.length < maxRecords)) {
+        try {
+          const result = await this.fetchNextPage(epochBegin, epochEnded, skip, cursor, block, signal);
         
-        const recordsToAdd = maxRecords 
-          ? result.data.slice(0, Math.max(0, maxRecords - allData.length))
-          : result.data;
+          const recordsToAdd = maxRecords 
+            ? result.data.slice(0, Math.max(0, maxRecords - allData.length))
+            : result.data;
         
-        allData.push(...recordsToAdd);
-        hasMore = result.pagination.hasMore && (!maxRecords || allData.length < maxRecords);
-        skip += 1000;
+          allData.push(...recordsToAdd);
+          hasMore = result.pagination.hasMore && (!maxRecords || allData.length < maxRecords);
+          skip += PAGE_SIZE;
+          cursor = result.pagination.cursor || cursor;
 
-        if (onProgress) {
-          onProgress({
-            skip,
-            hasMore,
-            totalFetched: allData.length
-          });
-        }
+          if (onProgress) {
+            onProgress({
+              skip,
+              cursor: this.config.pagination === 'skip' ? undefined : cursor,
+              hasMore,
+              totalFetched: allData.length
+            });
+          }
 
-        if (result.data.length < 1000) {
-          hasMore = false;
-        }
+          if (result.data.length < PAGE_SIZE) {
+            hasMore = false;
+          }
 
-      } catch (error) {
-        const shouldRetry = onError ? onError(error as Error, skip) : false;
+        } catch (error) {
+          if (signal?.aborted) {
+            throw error;
+          }
+          const shouldRetry = onError ? onError(error as Error, skip) : false;
         
-        if (!shouldRetry) {
-          throw error;
-        }
+          if (!shouldRetry) {
+            throw error;
+          }
         
-        // If retrying, don't increment skip
-        continue;
+          // If retrying, don't increment skip
+          continue;
+        }
       }
-    }
 
-    return allData;
+      return allData;
+    });
   }
 
   /**
    * Get basic statistics about the available data
    */
-  async getDataStats(epochBegin: number, epochEnded: number): Promise<{
+  async getDataStats(epochBegin: number, epochEnded: number, options: SignalOptions = {}): Promise<{
     totalRecords: number;
     sampleData: SubgraphLeaderboardResponse[];
   }> {
     try {
       // Fetch first page to get sample data
-      const firstPage = await this.fetchPage(epochBegin, epochEnded, 0);
+      const firstPage = await this.fetchPage(epochBegin, epochEnded, 0, undefined, options);
       
       // If we got less than 1000 records, that's all the data
       if (firstPage.data.length < 1000) {
@@ -272,6 +871,10 @@ export class SubgraphClient {
         sampleData: firstPage.data.slice(0, 5)
       };
     } catch (error) {
+      // Keep timeouts, aborts and other client errors distinguishable
+      if (error instanceof SubgraphError) {
+        throw error;
+      }
       throw new SubgraphError(`Failed to get data stats: ${error}`);
     }
   }
@@ -281,14 +884,14 @@ export class SubgraphClient {
    */
   updateConfig(newConfig: Partial<SubgraphConfig>): void {
     this.config = { ...this.config, ...newConfig };
+
+    if (this.ownsLimiter) {
+      this.limiter.configure(this.getLimiterOptions());
+    }
     
-    // Create new GraphQL client if endpoint changed
-    if (newConfig.endpoint) {
-      this.client = new GraphQLClient(this.config.endpoint, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+    // Switch transport, or create a new default one if the endpoint changed
+    if (newConfig.transport || newConfig.endpoint) {
+      this.transport = this.config.transport || createGraphQLRequestTransport(this.config.endpoint);
     }
   }
 
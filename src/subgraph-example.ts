@@ -1,4 +1,5 @@
 import Decimal from 'decimal.js';
+import * as path from 'path';
 import { SubgraphClient } from './subgraph-client';
 import { 
   transformLeaderboards,
@@ -7,8 +8,10 @@ import {
 } from './data-transformer';
 import {
   calculateUserPoints,
-  CalculationConfig,
 } from './index';
+import { loadSeasonConfig, resolveSeasonRules } from './season-config';
+import { buildLeaderboard } from './leaderboard';
+import { EpochWindow, validateEpochRange } from './epoch';
 
 /**
  * Complete example showing how to fetch data from subgraph and calculate points
@@ -24,29 +27,29 @@ async function completeExample() {
     retryDelay: 1000
   });
 
-  // Step 2: Define time period (last 7 days)
-  // const now = Math.floor(Date.now() / 1000);
-  const start = 1759190400;
-  const stop = 1759247999;
+  // Step 2: Define time period (whole hourly epochs)
+  const window: EpochWindow = { epochBegin: 1759190400, epochEnded: 1759247999 };
+  validateEpochRange(window, { length: 'hour' });
+  const start = window.epochBegin;
+  const stop = window.epochEnded;
   
   console.log(`⏰ Time period: ${new Date(start * 1000).toISOString()} to ${new Date(stop * 1000).toISOString()}`);
 
-  if (start % 3600 !== 0) {
-    throw new Error('start时间必须是小时的第一秒');
-  }
-  if (stop % 3600 !== 3599) {
-    throw new Error('stop时间必须是小时的最后一秒');
-  }
-
   try {
     // Step 2: Fetch data with progress tracking
     console.log('\n📦 Fetching data from subgraph...');
+    // A lagging indexer yields provisional results instead of silently incomplete final ones
+    const finality = await client.getEpochFinality(stop, 'provisional');
+    const block = finality.status.block;
+    console.log(`   🧱 Reading every page at block ${block.number}, indexed ${finality.status.lagSeconds ?? '?'}s ago`);
+    console.log(`   ${finality.final ? '🔒 Epoch is final' : '⏳ Epoch is not indexed yet, results will be provisional'}`);
     const rawData = await client.fetchWithOptions({
       epochBegin: start,
       epochEnded: stop,
+      block: block.number, // Record this to reproduce the run
       maxRecords: 0, // Limit records, 0 for all
       onProgress: (pagination) => {
-        console.log(`   📊 Progress: ${pagination.totalFetched} records fetched, Skip: ${pagination.skip}, Has more: ${pagination.hasMore}`);
+        console.log(`   📊 Progress: ${pagination.totalFetched} records fetched, Cursor: ${pagination.cursor}, Has more: ${pagination.hasMore}`);
       },
       onError: (error, skip) => {
         console.error(`   ❌ Error at skip ${skip}:`, error.message);
@@ -88,21 +91,24 @@ async function completeExample() {
     const transformedData = transformLeaderboards(rawData);
     console.log(`✅ Transformed ${transformedData.length} records`);
 
-    const config: CalculationConfig = {
-      liquidityRate: new Decimal(0.1).div(new Decimal(3600)),      // 0.1x multiplier per hour for liquidity
-      tradeProfitRate: new Decimal(1),    // 1x multiplier for profits  
-      tradeRate: new Decimal(5),         // 5x multiplier for volume
-    };
+    // Rules in force for this window, from the season config
+    const seasonPath = process.env.SEASON_CONFIG || path.join(process.cwd(), 'seasons', 'season-1.json');
+    const season = await loadSeasonConfig(seasonPath);
+    const config = resolveSeasonRules(season, start, stop);
 
     console.log('\n⚙️  Point Calculation Configuration:');
+    console.log(`   📅 Season: ${season.season} (${seasonPath})`);
+    console.log(`   🏊 Liquidity rate: ${config.liquidityRate.mul(3600).toString()} per LP-hour`);
+    console.log(`   📊 Trade rate: ${config.tradeRate.toString()}`);
+    console.log(`   💰 Profit rate: ${config.tradeProfitRate.toString()}`);
 
     console.log('\n🧮 Calculating points...');
     const pointResults = calculateUserPoints(
       transformedData,
       config,
-      start,
-      stop,
-      Math.floor(Date.now() / 1000) > stop, // true when calculating the history points
+      window,
+      finality.final,
+      { indexedTimestamp: block.timestamp }
     );
 
     console.log(`✅ Calculated points for ${pointResults.length} users\n`);
@@ -111,20 +117,22 @@ async function completeExample() {
     console.log('🏆 Point Calculation Results (Top 10):');
     console.log('='.repeat(120));
     
-    const sortedResults = pointResults
-      .map(result => ({
-        ...result,
-        totalPoints: result.lp_usd_hours.add(result.volume_usd).add(result.realized_pnl_net_usd)
-      }))
-      .sort((a, b) => b.totalPoints.minus(a.totalPoints).toNumber())
-      .slice(0, 10);
-
-    sortedResults.forEach((result, index) => {
-      console.log(`\n${index + 1}. ${result.account}`);
+    const leaderboard = buildLeaderboard(pointResults, {
+      tiers: [
+        { name: 'Gold', minPercentile: 90 },
+        { name: 'Silver', minPercentile: 70 },
+        { name: 'Bronze', minPercentile: 40 }
+      ]
+    });
+    const resultsByAccount = new Map(pointResults.map(result => [result.account.toLowerCase(), result]));
+
+    leaderboard.slice(0, 10).forEach(entry => {
+      const result = resultsByAccount.get(entry.account)!;
+      console.log(`\n${entry.rank}. ${entry.account} (${entry.tier || 'Unranked'}, top ${(100 - entry.percentile).toFixed(1)}%)`);
       console.log(`   🏊 Liquidity Points: ${result.lp_usd_hours.toFixed(2).padStart(10)}`);
       console.log(`   📊 Trade Points:     ${result.volume_usd.toFixed(2).padStart(10)}`);
       console.log(`   💰 Profit Points:    ${result.realized_pnl_net_usd.toFixed(2).padStart(10)}`);
-      console.log(`   🎯 Total Points:     ${result.totalPoints.toFixed(2).padStart(10)}`);
+      console.log(`   🎯 Total Points:     ${entry.totalPoints.toFixed(2).padStart(10)}`);
     });
 
     const totalLiquidityPoints = pointResults.reduce((sum, r) => sum.add(r.lp_usd_hours), new Decimal(0));
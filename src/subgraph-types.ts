@@ -1,4 +1,6 @@
 import Decimal from 'decimal.js';
+import type { SubgraphTransport } from './transport';
+import type { ResponseCache } from './response-cache';
 
 // GraphQL Query Types (Raw response from subgraph)
 export interface SubgraphSnapResponse {
@@ -26,6 +28,7 @@ export interface SubgraphLiquidityResponse {
   lp: string;
   start: SubgraphLiquiditySnapResponse[];
   ended: SubgraphLiquiditySnapResponse[];
+  history?: SubgraphLiquiditySnapResponse[];
 }
 
 export interface SubgraphLeaderboardResponse {
@@ -44,24 +47,109 @@ export interface SubgraphQueryResponse {
   data: SubgraphLeaderboardResponse[];
 }
 
+export interface SubgraphMetaResponse {
+  _meta: {
+    block: {
+      number: number;
+      timestamp?: number | null;
+    };
+    hasIndexingErrors: boolean;
+  } | null;
+}
+
+// Block the subgraph data was read at
+export interface BlockInfo {
+  number: number;
+  timestamp?: number;
+}
+
+// Indexing progress of the subgraph
+export interface IndexingStatus {
+  block: BlockInfo;            // Latest indexed block, or the block the status was read at
+  hasIndexingErrors: boolean;
+  lagSeconds: number | null;   // Wall-clock time minus the block timestamp, null without a timestamp
+}
+
+// What to do with an epoch the subgraph has not indexed past
+export type FinalityPolicy = 'refuse' | 'provisional';
+
+export interface EpochFinality {
+  final: boolean;              // Indexed past epochEnded without indexing errors
+  status: IndexingStatus;
+}
+
+// Records per page; also the maximum The Graph returns for one query
+export const PAGE_SIZE = 1000;
+
+// Liquidity history snaps per account and query; fuller histories are paged by timestamp
+export const HISTORY_PAGE_SIZE = 1000;
+
 // Query Variables
 export interface SubgraphQueryVariables {
-  skip: number;
+  skip?: number;    // Skip pagination
+  lastId?: string;  // Cursor pagination: only accounts with id greater than lastId
+  upperId?: string; // Cursor pagination within a partition: only accounts with id less than upperId
+  accounts?: string[]; // Account lookup: only these ids
+  block?: number;   // Block to read at
   epochBegin: number;
   epochEnded: number;
 }
 
-// GraphQL Query String
-export const LEADERBOARD_QUERY = `
-  query MyQuery($skip: Int!, $epochBegin: Int!, $epochEnded: Int!) {
-    data: leaderboards(first: 1000, skip: $skip) {
-      account: id
-      swap
-      tradingVolume
-      conditionTradeVolume
-      netProfit
-      latestUpdateTimestamp
-      start: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lt: $epochBegin }) {
+// Variables of the liquidity history query
+export interface LiquidityHistoryVariables {
+  account: string;
+  after: number;    // Snaps at or after this timestamp
+  epochEnded: number;
+  block?: number;
+}
+
+export interface SubgraphLiquidityHistoryResponse {
+  data: {
+    liquidity: { history: SubgraphLiquiditySnapResponse[] } | null;
+  } | null;
+}
+
+/**
+ * Pagination strategy
+ *
+ * - cursor: ordered by id, each page starts after the last id of the previous page
+ *   (id_gt). Works for any number of accounts without duplicates or gaps.
+ * - skip: offset-based; The Graph caps skip and large offsets get slow and inconsistent
+ */
+export type PaginationMode = 'cursor' | 'skip';
+
+// Options for building the leaderboard query
+export interface LeaderboardQueryOptions {
+  liquidityHistory?: boolean; // Include every liquidity snap inside the epoch
+  pagination?: PaginationMode; // Defaults to skip
+  blockPinned?: boolean;       // Read at the block given by $block
+  bounded?: boolean;           // Cursor pagination: stop before the id given by $upperId
+  accounts?: boolean;          // Look up the ids given by $accounts instead of paginating
+}
+
+// Range of account ids fetched by one partition: after < id < before
+export interface IdRange {
+  after: string;     // '' for the first partition
+  before?: string;   // Undefined for the last partition
+}
+
+/**
+ * Split the account id space into contiguous ranges by hex prefix, in id order.
+ * Leaderboard ids are lowercase hex addresses, so prefixes like '0x4000' fall
+ * between every '0x3fff…' and '0x4000…' id.
+ */
+export function partitionIdRange(count: number): IdRange[] {
+  const partitions = Math.max(1, Math.min(Math.floor(count), 0x10000));
+  const prefix = (index: number) =>
+    '0x' + Math.floor((index * 0x10000) / partitions).toString(16).padStart(4, '0');
+
+  return Array.from({ length: partitions }, (_, index) => ({
+    after: index === 0 ? '' : prefix(index),
+    before: index === partitions - 1 ? undefined : prefix(index + 1)
+  }));
+}
+
+const LEADERBOARD_SNAP_FIELDS = `
         margin
         tradedReferralsCount
         tradingVolume
@@ -71,67 +159,174 @@ export const LEADERBOARD_QUERY = `
         referral
         netProfit
         collateralUsd
-        id
+        id`;
+
+const LIQUIDITY_SNAP_FIELDS = `
+          lp
+          basePoints
+          timestamp
+          id`;
+
+/**
+ * Build the leaderboard query for the given options
+ */
+export function buildLeaderboardQuery(options: LeaderboardQueryOptions = {}): string {
+  const history = options.liquidityHistory
+    ? `
+        history: snap(first: ${HISTORY_PAGE_SIZE}, orderBy: timestamp, orderDirection: asc, where: { timestamp_gt: $epochBegin, timestamp_lte: $epochEnded }) {${LIQUIDITY_SNAP_FIELDS}
+        }`
+    : '';
+
+  const page = options.accounts
+    ? {
+        variable: '$accounts: [ID!]!',
+        args: `first: ${PAGE_SIZE}, where: { id_in: $accounts }`
       }
-      ended: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lte: $epochEnded }) {
-        margin
-        tradedReferralsCount
-        tradingVolume
-        conditionTradeVolume
-        timestamp
-        swap
-        referral
-        netProfit
-        collateralUsd
-        id
+    : options.pagination === 'cursor'
+    ? {
+        variable: options.bounded ? '$lastId: ID!, $upperId: ID!' : '$lastId: ID!',
+        args: `first: ${PAGE_SIZE}, orderBy: id, orderDirection: asc, where: { id_gt: $lastId${options.bounded ? ', id_lt: $upperId' : ''} }`
+      }
+    : {
+        variable: '$skip: Int!',
+        args: `first: ${PAGE_SIZE}, skip: $skip`
+      };
+  const block = options.blockPinned
+    ? { variable: ', $block: Int!', args: ', block: { number: $block }' }
+    : { variable: '', args: '' };
+
+  return `
+  query MyQuery(${page.variable}, $epochBegin: Int!, $epochEnded: Int!${block.variable}) {
+    data: leaderboards(${page.args}${block.args}) {
+      account: id
+      swap
+      tradingVolume
+      conditionTradeVolume
+      netProfit
+      latestUpdateTimestamp
+      start: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lt: $epochBegin }) {${LEADERBOARD_SNAP_FIELDS}
+      }
+      ended: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lte: $epochEnded }) {${LEADERBOARD_SNAP_FIELDS}
       }
       liquidity {
         account: id
         lp
-        start: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lte: $epochBegin }) {
-          lp
-          basePoints
-          timestamp
-          id
+        start: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lte: $epochBegin }) {${LIQUIDITY_SNAP_FIELDS}
         }
-        ended: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lte: $epochEnded }) {
-          lp
-          basePoints
-          timestamp
-          id
+        ended: snap(first: 1, orderBy: timestamp, orderDirection: desc, where: { timestamp_lte: $epochEnded }) {${LIQUIDITY_SNAP_FIELDS}
+        }${history}
+      }
+    }
+  }
+`;
+}
+
+/**
+ * Build the query for the next page of one account's liquidity history. Pages
+ * overlap on the last timestamp seen, so snaps sharing it are not skipped.
+ */
+export function buildLiquidityHistoryQuery(options: { blockPinned?: boolean } = {}): string {
+  const block = options.blockPinned
+    ? { variable: ', $block: Int!', args: ', block: { number: $block }' }
+    : { variable: '', args: '' };
+
+  return `
+  query LiquidityHistory($account: ID!, $after: Int!, $epochEnded: Int!${block.variable}) {
+    data: leaderboard(id: $account${block.args}) {
+      liquidity {
+        history: snap(first: ${HISTORY_PAGE_SIZE}, orderBy: timestamp, orderDirection: asc, where: { timestamp_gte: $after, timestamp_lte: $epochEnded }) {${LIQUIDITY_SNAP_FIELDS}
         }
       }
     }
   }
 `;
+}
+
+// GraphQL Query String
+export const LEADERBOARD_QUERY = buildLeaderboardQuery();
+
+// Latest indexed block and indexing health
+export const META_QUERY = `
+  query Meta {
+    _meta {
+      block {
+        number
+        timestamp
+      }
+      hasIndexingErrors
+    }
+  }
+`;
+
+// Timestamp of a given block
+export const BLOCK_META_QUERY = `
+  query BlockMeta($block: Int!) {
+    _meta(block: { number: $block }) {
+      block {
+        number
+        timestamp
+      }
+      hasIndexingErrors
+    }
+  }
+`;
 
 // Configuration for subgraph client
 export interface SubgraphConfig {
   endpoint: string;
   requestsPerSecond?: number;
+  burst?: number;        // Requests that may start back to back after idling, defaults to 1
+  concurrency?: number;  // Requests in flight at once, defaults to 4
+  partitions?: number;   // Id ranges fetched in parallel in cursor mode, defaults to 1
   maxRetries?: number;
   retryDelay?: number;
+  requestTimeout?: number;  // Abort a single request after this many ms (retried like a network error), defaults to 30000
+  totalTimeout?: number;    // Abort a whole public call, retries included, after this many ms; 0 or undefined for none
+  includeLiquidityHistory?: boolean;
+  pagination?: PaginationMode;  // Defaults to cursor
+  pinBlock?: boolean;  // Read every page of a fetch at one block resolved from _meta, defaults to true
+  transport?: SubgraphTransport;  // Sends requests, defaults to graphql-request against endpoint
+  cache?: ResponseCache;          // Caches leaderboard pages on disk, off by default
 }
 
 // Default configuration
 export const DEFAULT_SUBGRAPH_CONFIG: SubgraphConfig = {
   endpoint: 'https://api.goat.0xgraph.xyz/api/public/484b3c49-8f28-4a57-b4ae-dc6be91dd78f/subgraphs/goat-perp/v1.0.0/gn',
   requestsPerSecond: 5,
+  burst: 1,
+  concurrency: 4,
+  partitions: 1,
   maxRetries: 3,
-  retryDelay: 1000
+  retryDelay: 1000,
+  requestTimeout: 30000,
+  pagination: 'cursor',
+  pinBlock: true
 };
 
 // Pagination info
 export interface PaginationInfo {
-  skip: number;
+  skip: number;     // Offset of the next page; records fetched so far in cursor mode
+  cursor?: string;  // Last account id fetched, in cursor mode
   hasMore: boolean;
   totalFetched: number;
 }
 
+// Cancellation for public client methods
+export interface SignalOptions {
+  signal?: AbortSignal;
+}
+
 // Fetch result with pagination info
 export interface FetchResult {
   data: SubgraphLeaderboardResponse[];
   pagination: PaginationInfo;
+  block?: number;  // Block the page was read at, when pinned
+}
+
+// All pages of a fetch, read at one block
+export interface SnapshotResult {
+  data: SubgraphLeaderboardResponse[];
+  block?: number;  // Undefined when block pinning is disabled
 }
 
 // Error types
@@ -147,7 +342,10 @@ export class SubgraphError extends Error {
 }
 
 export class RateLimitError extends SubgraphError {
-  constructor(message: string = 'Rate limit exceeded') {
+  constructor(
+    message: string = 'Rate limit exceeded',
+    public readonly retryAfterMs?: number  // From the Retry-After header, when sent
+  ) {
     super(message, 'RATE_LIMIT', 429);
   }
 }
@@ -156,4 +354,23 @@ export class NetworkError extends SubgraphError {
   constructor(message: string, statusCode?: number) {
     super(message, 'NETWORK_ERROR', statusCode);
   }
+}
+
+export class TimeoutError extends SubgraphError {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number
+  ) {
+    super(message, 'TIMEOUT');
+  }
+}
+
+export class IndexingLagError extends SubgraphError {
+  constructor(
+    message: string,
+    public readonly epochEnded: number,
+    public readonly status: IndexingStatus
+  ) {
+    super(message, 'INDEXING_LAG');
+  }
 }
\ No newline at end of file
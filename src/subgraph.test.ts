@@ -6,11 +6,30 @@ import {
   DataFilter,
   DataStats
 } from './data-transformer';
-import { DEFAULT_SUBGRAPH_CONFIG } from './subgraph-types';
+import {
+  DEFAULT_SUBGRAPH_CONFIG,
+  buildLeaderboardQuery,
+  partitionIdRange,
+  LEADERBOARD_QUERY,
+  META_QUERY,
+  TimeoutError
+} from './subgraph-types';
+import { TransportError, TransportFixture, TransportRequest, createReplayTransport } from './transport';
+import { TokenBucketLimiter } from './rate-limiter';
 
 describe('Subgraph Integration', () => {
   let client: SubgraphClient;
 
+  // Fixture answering fetchPage(1000, 2000, skip, block) with empty pages
+  const emptyPagesFixture = (skips: number[], block?: number): TransportFixture => ({
+    version: 1,
+    entries: skips.map(skip => ({
+      query: buildLeaderboardQuery({ pagination: 'skip', blockPinned: block !== undefined }),
+      variables: { skip, epochBegin: 1000, epochEnded: 2000, block },
+      response: { data: [] }
+    }))
+  });
+
   beforeEach(() => {
     // Use a longer timeout for integration tests
     jest.setTimeout(30000);
@@ -35,6 +54,342 @@ describe('Subgraph Integration', () => {
       expect(config.requestsPerSecond).toBe(10);
     });
 
+    const page = (size: number, offset: number) =>
+      Array.from({ length: size }, (_, i) => ({ account: `0x${String(offset + i).padStart(6, '0')}` }));
+
+    // Transport answering _meta with block 123 and passing leaderboard queries to the page mock
+    let request: jest.Mock;
+    const mockQueries = (pages: jest.Mock) => {
+      request = jest.fn(({ query, variables }: TransportRequest): Promise<any> =>
+        query === META_QUERY
+          ? Promise.resolve({ _meta: { block: { number: 123, timestamp: 1999 }, hasIndexingErrors: false } })
+          : pages(query, variables)
+      );
+      client.updateConfig({ transport: { request } });
+      return pages;
+    };
+
+    it('should stream pages by cursor until a short page', async () => {
+      const pages = jest.fn()
+        .mockResolvedValueOnce({ data: page(1000, 0) })
+        .mockResolvedValueOnce({ data: page(10, 1000) });
+      mockQueries(pages);
+      client.updateConfig({ requestsPerSecond: 0 });
+      const progress: number[] = [];
+
+      const sizes: number[] = [];
+      for await (const data of client.streamPages(1000, 2000, pagination => progress.push(pagination.totalFetched))) {
+        sizes.push(data.length);
+      }
+
+      expect(sizes).toEqual([1000, 10]);
+      expect(progress).toEqual([1000, 1010]);
+      expect(pages.mock.calls.map(call => call[1].lastId)).toEqual(['', '0x000999']);
+      expect(pages.mock.calls[0][0]).toContain('where: { id_gt: $lastId }');
+    });
+
+    it('should pass a failed page on to the consumer without logging', async () => {
+      mockQueries(jest.fn().mockRejectedValue(new TransportError('Bad Request', { status: 400, headers: {} })));
+      client.updateConfig({ requestsPerSecond: 0 });
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const consume = async () => {
+        for await (const _data of client.streamPages(1000, 2000)) {
+          // Never reached
+        }
+      };
+
+      await expect(consume()).rejects.toMatchObject({ code: 'CLIENT_ERROR' });
+      expect(consoleError).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    it('should fall back to skip pagination', async () => {
+      const pages = jest.fn()
+        .mockResolvedValueOnce({ data: page(1000, 0) })
+        .mockResolvedValueOnce({ data: page(10, 1000) });
+      mockQueries(pages);
+      client.updateConfig({ requestsPerSecond: 0, pagination: 'skip' });
+
+      const data = await client.fetchAllData(1000, 2000);
+
+      expect(data).toHaveLength(1010);
+      expect(pages.mock.calls.map(call => call[1].skip)).toEqual([0, 1000]);
+      expect(pages.mock.calls[0][0]).toContain('skip: $skip');
+    });
+
+    it('should resume after a cursor and reject a cursor that does not advance', async () => {
+      const pages = jest.fn().mockResolvedValue({ data: page(1000, 0) });
+      mockQueries(pages);
+      client.updateConfig({ requestsPerSecond: 0 });
+
+      await expect(client.fetchWithOptions({ epochBegin: 1000, epochEnded: 2000, startAfter: '0x000999' }))
+        .rejects.toThrow('Cursor did not advance past 0x000999');
+      expect(pages.mock.calls[0][1].lastId).toBe('0x000999');
+    });
+
+    it('should reject a start option of the other pagination mode', async () => {
+      const pages = mockQueries(jest.fn().mockResolvedValue({ data: [] }));
+      client.updateConfig({ requestsPerSecond: 0 });
+
+      await expect(client.fetchWithOptions({ epochBegin: 1000, epochEnded: 2000, startFrom: 5000 }))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS', message: 'startFrom does not apply to cursor pagination, use startAfter' });
+      client.updateConfig({ pagination: 'skip' });
+      await expect(client.fetchWithOptions({ epochBegin: 1000, epochEnded: 2000, startAfter: '0x000999' }))
+        .rejects.toMatchObject({ code: 'INVALID_OPTIONS' });
+      expect(pages).not.toHaveBeenCalled();
+    });
+
+    it('should accept a start option of the other pagination mode that starts at the beginning', async () => {
+      const pages = mockQueries(jest.fn().mockResolvedValue({ data: [] }));
+      client.updateConfig({ requestsPerSecond: 0 });
+
+      await expect(client.fetchWithOptions({ epochBegin: 1000, epochEnded: 2000, startFrom: 0 })).resolves.toEqual([]);
+      client.updateConfig({ pagination: 'skip' });
+      await expect(client.fetchWithOptions({ epochBegin: 1000, epochEnded: 2000, startAfter: '' })).resolves.toEqual([]);
+      expect(pages).toHaveBeenCalledTimes(2);
+    });
+
+    it('should fetch all data for an epoch window', async () => {
+      const pages = jest.fn().mockResolvedValue({ data: [{ account: '0xaaa' }] });
+      mockQueries(pages);
+      client.updateConfig({ requestsPerSecond: 0 });
+
+      const data = await client.fetchAllData({ epochBegin: 1000, epochEnded: 1999 });
+
+      expect(data).toHaveLength(1);
+      expect(pages.mock.calls[0][1]).toMatchObject({ epochBegin: 1000, epochEnded: 1999 });
+    });
+
+    it('should pin every page to the latest block', async () => {
+      const pages = mockQueries(jest.fn()
+        .mockResolvedValueOnce({ data: page(1000, 0) })
+        .mockResolvedValueOnce({ data: page(10, 1000) }));
+      client.updateConfig({ requestsPerSecond: 0 });
+
+      const snapshot = await client.fetchSnapshot(1000, 2000);
+
+      expect(snapshot.block).toBe(123);
+      expect(snapshot.data).toHaveLength(1010);
+      expect(request.mock.calls.filter(call => call[0].query === META_QUERY)).toHaveLength(1);
+      expect(pages.mock.calls.map(call => call[1].block)).toEqual([123, 123]);
+      expect(pages.mock.calls[0][0]).toContain('block: { number: $block }');
+    });
+
+    it('should read at a caller-supplied block without querying _meta', async () => {
+      const pages = mockQueries(jest.fn().mockResolvedValue({ data: page(10, 0) }));
+      client.updateConfig({ requestsPerSecond: 0, pagination: 'skip' });
+
+      const snapshot = await client.fetchSnapshot(1000, 2000, { block: 99 });
+
+      expect(snapshot.block).toBe(99);
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(pages.mock.calls[0][1]).toMatchObject({ skip: 0, block: 99 });
+      expect(pages.mock.calls[0][0]).toContain('block: { number: $block }');
+    });
+
+    it('should not pin when block pinning is disabled', async () => {
+      const pages = mockQueries(jest.fn().mockResolvedValue({ data: page(10, 0) }));
+      client.updateConfig({ requestsPerSecond: 0, pinBlock: false });
+
+      const snapshot = await client.fetchSnapshot(1000, 2000);
+
+      expect(snapshot.block).toBeUndefined();
+      expect(request).toHaveBeenCalledTimes(1);
+      expect(pages.mock.calls[0][1].block).toBeUndefined();
+      expect(pages.mock.calls[0][0]).not.toContain('$block');
+    });
+
+    it('should fetch id partitions in parallel and join them in id order', async () => {
+      const pages = mockQueries(jest.fn((query: string, variables: any) => Promise.resolve({
+        data: variables.lastId === '' ? page(1000, 0) : variables.lastId === '0x000999'
+          ? page(5, 1000)
+          : [{ account: '0x8000aa' }, { account: '0x8000bb' }]
+      })));
+      client.updateConfig({ requestsPerSecond: 0 });
+
+      const snapshot = await client.fetchSnapshot(1000, 2000, { partitions: 2 });
+
+      expect(snapshot.data.map(record => record.account)).toEqual([
+        ...page(1005, 0).map(record => record.account), '0x8000aa', '0x8000bb'
+      ]);
+      const calls = pages.mock.calls.map(call => [call[1].lastId, call[1].upperId, call[1].block]);
+      expect(calls).toEqual(expect.arrayContaining([
+        ['', '0x8000', 123], ['0x000999', '0x8000', 123], ['0x8000', undefined, 123]
+      ]));
+      expect(calls).toHaveLength(3);
+      const bounded = pages.mock.calls.find(call => call[1].upperId)!;
+      expect(bounded[0]).toContain('where: { id_gt: $lastId, id_lt: $upperId }');
+    });
+
+    it('should look up accounts by id in batches at one block', async () => {
+      const pages = mockQueries(jest.fn((query: string, variables: any) => Promise.resolve({
+        data: variables.accounts.filter((account: string) => account !== '0xccc').map((account: string) => ({ account }))
+      })));
+      client.updateConfig({ requestsPerSecond: 0 });
+
+      const snapshot = await client.fetchAccounts(['0xCCC', '0xbbb', '0xaaa', '0xBBB'], 1000, 2000, { batchSize: 2 });
+
+      expect(snapshot).toEqual({ data: [{ account: '0xbbb' }, { account: '0xaaa' }], block: 123 });
+      expect(pages.mock.calls.map(call => call[1].accounts)).toEqual([['0xccc', '0xbbb'], ['0xaaa']]);
+      expect(pages.mock.calls.map(call => call[1].block)).toEqual([123, 123]);
+      expect(pages.mock.calls[0][0]).toContain('where: { id_in: $accounts }');
+    });
+
+    it('should page through liquidity histories longer than one query returns', async () => {
+      const snap = (i: number) => ({ lp: String(i), basePoints: '0', timestamp: String(1000 + Math.floor(i / 2)), id: `snap-${i}` });
+      const history = Array.from({ length: 2500 }, (_, i) => snap(i));
+      const pages = mockQueries(jest.fn((query: string, variables: any) => Promise.resolve(query.includes('LiquidityHistory')
+        ? { data: { liquidity: { history: history.filter(s => Number(s.timestamp) >= variables.after).slice(0, 1000) } } }
+        : { data: [{ account: '0xaaa', liquidity: { account: '0xaaa', lp: '0', start: [], ended: [], history: history.slice(0, 1000) } }] }
+      )));
+      client.updateConfig({ requestsPerSecond: 0, includeLiquidityHistory: true });
+
+      const snapshot = await client.fetchSnapshot(1000, 2000);
+
+      expect(snapshot.data[0].liquidity!.history).toEqual(history);
+      const historyCalls = pages.mock.calls.filter(call => call[0].includes('LiquidityHistory'));
+      expect(historyCalls.map(call => call[1])).toEqual([
+        { account: '0xaaa', after: 1499, epochEnded: 2000, block: 123 },
+        { account: '0xaaa', after: 1998, epochEnded: 2000, block: 123 }
+      ]);
+      expect(historyCalls[0][0]).toContain('leaderboard(id: $account, block: { number: $block })');
+    });
+
+    it('should honor Retry-After on 429 by pausing the shared limiter', async () => {
+      const transport = createReplayTransport(emptyPagesFixture([0], 5), [{ status: 429, retryAfter: '2' }]);
+      const limiter = new TokenBucketLimiter();
+      const pauseFor = jest.spyOn(limiter, 'pauseFor').mockImplementation(() => undefined);
+      const limitedClient = new SubgraphClient({ transport }, limiter);
+
+      const result = await limitedClient.fetchPage(1000, 2000, 0, 5);
+
+      expect(result.data).toEqual([]);
+      expect(pauseFor).toHaveBeenCalledWith(2000);
+      expect(transport.requests).toHaveLength(2);
+    });
+
+    it('should give up after the retries with the Retry-After delay', async () => {
+      const transport = createReplayTransport(emptyPagesFixture([0], 5), [{ status: 429, retryAfter: '7', times: 2 }]);
+      const limiter = new TokenBucketLimiter();
+      jest.spyOn(limiter, 'pauseFor').mockImplementation(() => undefined);
+      const limitedClient = new SubgraphClient({ transport, maxRetries: 1 }, limiter);
+
+      await expect(limitedClient.fetchPage(1000, 2000, 0, 5)).rejects.toMatchObject({
+        name: 'SubgraphError',
+        code: 'RATE_LIMIT',
+        retryAfterMs: 7000
+      });
+    });
+
+    describe('cancellation and timeouts', () => {
+      // Never settles on its own, like a hung connection; rejects once its signal aborts
+      const hangingRequest = () => jest.fn(({ signal }: TransportRequest): Promise<any> =>
+        new Promise((_, reject) => signal!.addEventListener('abort', () => reject(new Error('The operation was aborted'))))
+      );
+
+      beforeEach(() => {
+        jest.useFakeTimers();
+        client.updateConfig({ requestsPerSecond: 0, retryDelay: 1000, maxRetries: 2 });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should abort a pending retry and clear its timer', async () => {
+        const request = jest.fn().mockRejectedValue(new Error('socket hang up'));
+        client.updateConfig({ transport: { request } });
+        const controller = new AbortController();
+
+        const fetching = client.fetchPage(1000, 2000, 0, 5, { signal: controller.signal });
+        const outcome = expect(fetching).rejects.toMatchObject({ code: 'ABORTED' });
+        await jest.advanceTimersByTimeAsync(0);
+        expect(jest.getTimerCount()).toBe(1);  // Retry backoff
+        controller.abort();
+
+        await outcome;
+        expect(request).toHaveBeenCalledTimes(1);
+        expect(jest.getTimerCount()).toBe(0);
+      });
+
+      it('should keep an aborted data stats call distinguishable', async () => {
+        client.updateConfig({ transport: { request: hangingRequest() } });
+        const controller = new AbortController();
+
+        const stats = client.getDataStats(1000, 2000, { signal: controller.signal });
+        const outcome = expect(stats).rejects.toMatchObject({ code: 'ABORTED', message: 'Request was aborted' });
+        await jest.advanceTimersByTimeAsync(0);
+        controller.abort();
+
+        await outcome;
+      });
+
+      it('should retry a request that times out, then throw a TimeoutError', async () => {
+        const request = hangingRequest();
+        client.updateConfig({ transport: { request } });
+        client.updateConfig({ requestTimeout: 500, maxRetries: 1 });
+
+        const fetching = client.fetchPageByCursor(1000, 2000, '', 5);
+        const outcome = expect(fetching).rejects.toBeInstanceOf(TimeoutError);
+        await jest.advanceTimersByTimeAsync(500 + 1000 + 500);
+
+        await outcome;
+        await expect(fetching).rejects.toMatchObject({ code: 'TIMEOUT', timeoutMs: 500 });
+        expect(request).toHaveBeenCalledTimes(2);
+        expect(request.mock.calls[0][0].signal?.aborted).toBe(true);
+        expect(jest.getTimerCount()).toBe(0);
+      });
+
+      it('should stop a whole fetch at the total timeout', async () => {
+        client.updateConfig({ transport: { request: hangingRequest() } });
+        client.updateConfig({ totalTimeout: 2000, pinBlock: false });
+
+        const fetching = client.fetchAllData(1000, 2000);
+        const outcome = expect(fetching).rejects.toMatchObject({ code: 'TIMEOUT', timeoutMs: 2000 });
+        await jest.advanceTimersByTimeAsync(2000);
+
+        await outcome;
+        expect(jest.getTimerCount()).toBe(0);
+      });
+
+      it('should not start requests once the signal has aborted', async () => {
+        const request = jest.fn();
+        client.updateConfig({ transport: { request } });
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(client.fetchWithOptions({ epochBegin: 1000, epochEnded: 2000, signal: controller.signal, onError: () => true }))
+          .rejects.toMatchObject({ code: 'ABORTED' });
+        await expect(client.getIndexingStatus({ signal: controller.signal })).rejects.toMatchObject({ code: 'ABORTED' });
+        expect(request).not.toHaveBeenCalled();
+      });
+    });
+
+    it('should report the indexing status and its lag', async () => {
+      client.updateConfig({
+        requestsPerSecond: 0,
+        transport: { request: jest.fn().mockResolvedValue({ _meta: { block: { number: 123, timestamp: 1000 }, hasIndexingErrors: false } }) }
+      });
+      jest.spyOn(Date, 'now').mockReturnValue(1090 * 1000);
+
+      try {
+        const status = await client.getIndexingStatus();
+        expect(status).toEqual({ block: { number: 123, timestamp: 1000 }, hasIndexingErrors: false, lagSeconds: 90 });
+        await expect(client.getEpochFinality(1000)).resolves.toMatchObject({ final: true });
+        await expect(client.getEpochFinality(1001)).rejects.toThrow('Epoch ending 1001 is not final');
+        await expect(client.getEpochFinality(1001, 'provisional')).resolves.toMatchObject({ final: false });
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    it('should fail when the subgraph returns no _meta block', async () => {
+      client.updateConfig({ transport: { request: jest.fn().mockResolvedValue({ _meta: null }) } });
+
+      await expect(client.getLatestBlock()).rejects.toThrow('Subgraph did not return _meta.block');
+    });
+
     // Note: These tests will make real network requests
     // In a real project, you might want to mock these or use test data
     describe('Real Network Tests', () => {
@@ -152,6 +507,28 @@ describe('Subgraph Integration', () => {
       expect(second.liquidity.ended).toHaveLength(0);
     });
 
+    it('should transform liquidity history when fetched', () => {
+      const withHistory = [{
+        ...mockSubgraphData[0],
+        liquidity: {
+          ...mockSubgraphData[0].liquidity!,
+          history: [{ lp: '5', basePoints: '0', timestamp: '1650000000', id: 'liq_history_1' }]
+        }
+      }];
+
+      expect(transformLeaderboards(mockSubgraphData)[0].liquidity.history).toBeUndefined();
+      expect(transformLeaderboards(withHistory)[0].liquidity.history).toEqual([
+        { id: 'liq_history_1', lp: new Decimal(5), basePoints: new Decimal(0), timestamp: 1650000000 }
+      ]);
+    });
+
+    it('should keep referral fields on snapshots', () => {
+      const transformed = transformLeaderboards(mockSubgraphData);
+
+      expect(transformed[0].ended[0].referral).toBe('0x0000000000000000000000000000000000000000');
+      expect(transformed[0].ended[0].tradedReferralsCount).toBe(0);
+    });
+
     it('should validate data correctly', () => {
       const validation = DataValidator.validateLeaderboards(mockSubgraphData);
       
@@ -216,18 +593,65 @@ describe('Subgraph Integration', () => {
     });
   });
 
+  describe('Query Builder', () => {
+    it('should build the default leaderboard query', () => {
+      expect(buildLeaderboardQuery()).toBe(LEADERBOARD_QUERY);
+      expect(LEADERBOARD_QUERY).not.toContain('history:');
+    });
+
+    it('should order by id after the cursor for cursor pagination', () => {
+      const query = buildLeaderboardQuery({ pagination: 'cursor' });
+
+      expect(query).toContain('query MyQuery($lastId: ID!, $epochBegin: Int!, $epochEnded: Int!)');
+      expect(query).toContain('leaderboards(first: 1000, orderBy: id, orderDirection: asc, where: { id_gt: $lastId })');
+      expect(query).not.toContain('$skip');
+    });
+
+    it('should read leaderboards at a block when pinned', () => {
+      const query = buildLeaderboardQuery({ pagination: 'cursor', blockPinned: true });
+
+      expect(query).toContain('query MyQuery($lastId: ID!, $epochBegin: Int!, $epochEnded: Int!, $block: Int!)');
+      expect(query).toContain('where: { id_gt: $lastId }, block: { number: $block })');
+    });
+
+    it('should select accounts by id for account lookups', () => {
+      const query = buildLeaderboardQuery({ accounts: true, blockPinned: true });
+
+      expect(query).toContain('query MyQuery($accounts: [ID!]!, $epochBegin: Int!, $epochEnded: Int!, $block: Int!)');
+      expect(query).toContain('leaderboards(first: 1000, where: { id_in: $accounts }, block: { number: $block })');
+    });
+
+    it('should split the id space into contiguous partitions', () => {
+      expect(partitionIdRange(1)).toEqual([{ after: '', before: undefined }]);
+      expect(partitionIdRange(4)).toEqual([
+        { after: '', before: '0x4000' },
+        { after: '0x4000', before: '0x8000' },
+        { after: '0x8000', before: '0xc000' },
+        { after: '0xc000', before: undefined }
+      ]);
+    });
+
+    it('should include the liquidity history when requested', () => {
+      const query = buildLeaderboardQuery({ liquidityHistory: true });
+
+      expect(query).toContain('history: snap(first: 1000, orderBy: timestamp, orderDirection: asc');
+      expect(query).toContain('timestamp_gt: $epochBegin, timestamp_lte: $epochEnded');
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle invalid endpoint gracefully', async () => {
+      // An endpoint that does not serve the subgraph answers 404, which is not retried
+      const transport = createReplayTransport(emptyPagesFixture([0]), [{ status: 404 }]);
       const invalidClient = new SubgraphClient({
-        endpoint: 'https://invalid-endpoint.example.com/graphql'
+        endpoint: 'https://invalid-endpoint.example.com/graphql',
+        transport
       });
 
-      const epochBegin = Math.floor(Date.now() / 1000) - (7 * 24 * 60 * 60);
-      const epochEnded = Math.floor(Date.now() / 1000);
-
-      await expect(invalidClient.fetchPage(epochBegin, epochEnded, 0))
+      await expect(invalidClient.fetchPage(1000, 2000, 0))
         .rejects
-        .toThrow();
+        .toMatchObject({ name: 'SubgraphError', code: 'CLIENT_ERROR', statusCode: 404 });
+      expect(transport.requests).toHaveLength(1);
     });
 
     it('should validate numeric strings', () => {
@@ -242,27 +666,30 @@ describe('Subgraph Integration', () => {
 
   describe('Configuration', () => {
     it('should use custom rate limiting', async () => {
-      const start = Date.now();
-      
-      const rateLimitedClient = new SubgraphClient({
-        ...DEFAULT_SUBGRAPH_CONFIG,
-        requestsPerSecond: 1 // Very slow for testing
-      });
+      jest.useFakeTimers();
+      try {
+        const transport = createReplayTransport(emptyPagesFixture([0, 1000]));
+        const rateLimitedClient = new SubgraphClient({
+          ...DEFAULT_SUBGRAPH_CONFIG,
+          requestsPerSecond: 1, // Very slow for testing
+          transport
+        });
 
-      // Mock the actual request to avoid network calls
-      const originalExecuteQuery = (rateLimitedClient as any).executeQuery;
-      (rateLimitedClient as any).executeQuery = jest.fn().mockResolvedValue({
-        data: []
-      });
-
-      // Make two requests
-      await rateLimitedClient.fetchPage(1000, 2000, 0);
-      await rateLimitedClient.fetchPage(1000, 2000, 1000);
+        // Make two requests
+        const pages = Promise.all([
+          rateLimitedClient.fetchPage(1000, 2000, 0),
+          rateLimitedClient.fetchPage(1000, 2000, 1000)
+        ]);
 
-      const elapsed = Date.now() - start;
-      
-      // Should take at least 1 second due to rate limiting
-      expect(elapsed).toBeGreaterThanOrEqual(900); // Allow some tolerance
+        // The second request waits a full second for its token
+        await jest.advanceTimersByTimeAsync(999);
+        expect(transport.requests).toHaveLength(1);
+        await jest.advanceTimersByTimeAsync(1);
+        expect(transport.requests).toHaveLength(2);
+        await expect(pages).resolves.toHaveLength(2);
+      } finally {
+        jest.useRealTimers();
+      }
     });
   });
 });
\ No newline at end of file
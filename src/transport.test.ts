@@ -0,0 +1,160 @@
+import Decimal from 'decimal.js';
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtemp, rm } from 'fs/promises';
+import { SubgraphClient } from './subgraph-client';
+import { SubgraphLeaderboardResponse } from './subgraph-types';
+import { CalculationConfig, UserPoints } from './index';
+import { runPointsPipeline } from './pipeline';
+import {
+  SubgraphTransport,
+  TransportRequest,
+  TransportError,
+  createRecordingTransport,
+  createReplayTransport,
+  loadFixture,
+  parseFixture,
+  getRequestKey
+} from './transport';
+
+describe('Transport', () => {
+  const createResponse = (account: string, tradingVolume: number): SubgraphLeaderboardResponse => ({
+    account,
+    swap: '0',
+    tradingVolume: String(tradingVolume),
+    conditionTradeVolume: '0',
+    netProfit: String(tradingVolume / 10),
+    latestUpdateTimestamp: '1200',
+    start: [],
+    ended: [],
+    liquidity: null
+  });
+
+  // In-memory subgraph: _meta at block 500 / timestamp 1600, leaderboards paged by id cursor
+  const accounts = Array.from({ length: 1203 }, (_, i) => createResponse(`0x${i.toString(16).padStart(4, '0')}`, (i + 1) * 10));
+  const upstream: SubgraphTransport = {
+    request: async <T>({ query, variables }: TransportRequest): Promise<T> => {
+      if (query.includes('_meta')) {
+        return { _meta: { block: { number: 500, timestamp: 1600 }, hasIndexingErrors: false } } as T;
+      }
+      const data = accounts
+        .filter(account => account.account > variables.lastId && (!variables.upperId || account.account < variables.upperId))
+        .slice(0, 1000);
+      return { data } as T;
+    }
+  };
+
+  const config: CalculationConfig = {
+    liquidityRate: new Decimal(1),
+    tradeRate: new Decimal(1),
+    tradeProfitRate: new Decimal(1)
+  };
+
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'transport-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const runPipeline = async (transport: SubgraphTransport) => {
+    const client = new SubgraphClient({ transport, requestsPerSecond: 0, retryDelay: 1, maxRetries: 3 });
+    const results: UserPoints[] = [];
+    const summary = await runPointsPipeline({
+      client,
+      epochBegin: 1000,
+      epochEnded: 1500,
+      config,
+      sink: { write: batch => { results.push(...batch); } }
+    });
+    return { summary, results };
+  };
+
+  const recordFixture = async () => {
+    const recorder = createRecordingTransport(upstream);
+    const live = await runPipeline(recorder);
+    const file = path.join(dir, 'epoch.json');
+    await recorder.save(file);
+    return { live, file };
+  };
+
+  it('should replay a recorded pipeline run with no network', async () => {
+    const { live, file } = await recordFixture();
+    const replay = createReplayTransport(await loadFixture(file));
+
+    const replayed = await runPipeline(replay);
+
+    expect(live.results).toHaveLength(1203);
+    expect(replayed.results).toEqual(live.results);
+    expect(replayed.summary).toMatchObject({ accounts: 1203, batches: 2, block: 500, provisional: false });
+    expect(replay.requests.map(request => request.variables.lastId)).toEqual([undefined, '', '0x03e7']);
+  });
+
+  it('should retry injected rate limits and server errors and still match', async () => {
+    const { live, file } = await recordFixture();
+    const isPage = (request: TransportRequest) => request.variables.lastId === '0x03e7';
+    const replay = createReplayTransport(await loadFixture(file), [
+      { status: 429, retryAfter: '0', when: isPage },
+      { status: 503, times: 2, when: isPage }
+    ]);
+
+    const replayed = await runPipeline(replay);
+
+    expect(replayed.results).toEqual(live.results);
+    expect(replay.requests.filter(isPage)).toHaveLength(4);
+  });
+
+  it('should fail once injected failures outlast the retries', async () => {
+    const { file } = await recordFixture();
+    const replay = createReplayTransport(await loadFixture(file));
+    replay.inject({ status: 502, times: 10, when: request => !request.query.includes('_meta') });
+
+    await expect(runPipeline(replay)).rejects.toMatchObject({ code: 'NETWORK_ERROR', statusCode: 502 });
+  });
+
+  it('should record and replay HTTP failures', async () => {
+    const failing: SubgraphTransport = {
+      request: async () => {
+        throw new TransportError('Service Unavailable', { status: 503, headers: { 'retry-after': '1' } });
+      }
+    };
+    const recorder = createRecordingTransport(failing);
+    const request = { query: 'query Meta { _meta { block { number } } }', variables: {} };
+
+    await expect(recorder.request(request)).rejects.toThrow('Service Unavailable');
+    const replay = createReplayTransport(parseFixture(JSON.parse(JSON.stringify(recorder.fixture))));
+
+    await expect(replay.request(request)).rejects.toMatchObject({
+      response: { status: 503, headers: { 'retry-after': '1' } }
+    });
+  });
+
+  it('should answer repeated requests in recorded order and reject unknown ones', async () => {
+    const query = 'query Meta { _meta { block { number } } }';
+    const replay = createReplayTransport({
+      version: 1,
+      entries: [
+        { query, variables: {}, response: { n: 1 } },
+        { query, variables: {}, response: { n: 2 } }
+      ]
+    });
+
+    expect(await replay.request({ query: `  query Meta {\n _meta { block { number } } }`, variables: {} })).toEqual({ n: 1 });
+    expect(await replay.request({ query, variables: {} })).toEqual({ n: 2 });
+    expect(await replay.request({ query, variables: {} })).toEqual({ n: 2 });
+    await expect(replay.request({ query, variables: { block: 1 } })).rejects.toThrow('No fixture entry');
+  });
+
+  it('should match variables regardless of key order and undefined values', () => {
+    expect(getRequestKey('q', { b: 1, a: 2, c: undefined })).toBe(getRequestKey('q', { a: 2, b: 1 }));
+  });
+
+  it('should reject malformed fixtures', () => {
+    expect(() => parseFixture({ version: 2, entries: [] })).toThrow('Unsupported fixture version');
+    expect(() => parseFixture({ version: 1, entries: [{ query: 'q', variables: {} }] }))
+      .toThrow('exactly one of response and error');
+  });
+});
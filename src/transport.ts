@@ -0,0 +1,221 @@
+import { GraphQLClient } from 'graphql-request';
+import { readFile, writeFile, rename } from 'fs/promises';
+
+/**
+ * Transports carry one GraphQL request of the SubgraphClient to a subgraph
+ *
+ * Besides the default graphql-request transport, a recorder saves every
+ * query/variables/response pair to a fixture file and a replayer serves them back,
+ * so fetches can be tested with no network. The replayer can also inject HTTP
+ * failures (429, 5xx) to exercise the client's retry handling.
+ *
+ * Failed requests reject with an error carrying `response.status` and
+ * `response.headers`, the shape of graphql-request's ClientError.
+ */
+
+export interface TransportRequest {
+  query: string;
+  variables: Record<string, any>;
+  signal?: AbortSignal;
+}
+
+export interface SubgraphTransport {
+  request<T>(request: TransportRequest): Promise<T>;
+}
+
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public readonly response: { status: number; headers: Record<string, string> }
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+/**
+ * Transport sending requests with graphql-request
+ */
+export function createGraphQLRequestTransport(endpoint: string): SubgraphTransport {
+  const client = new GraphQLClient(endpoint, {
+    headers: {
+      'Content-Type': 'application/json',
+    },
+  });
+  return {
+    request: <T>({ query, variables, signal }: TransportRequest) =>
+      client.request<T>({ document: query, variables, signal })
+  };
+}
+
+export const FIXTURE_VERSION = 1;
+
+export interface FixtureEntry {
+  query: string;
+  variables: Record<string, any>;
+  response?: unknown;                                // Set for successful requests
+  error?: { status: number; message: string; headers?: Record<string, string> };  // Set for HTTP failures
+}
+
+export interface TransportFixture {
+  version: number;
+  entries: FixtureEntry[];
+}
+
+/**
+ * Key of a request: the query with whitespace collapsed and the variables with sorted keys
+ */
+export function getRequestKey(query: string, variables: Record<string, any>): string {
+  const sorted = Object.keys(variables).sort().reduce<Record<string, any>>((result, key) => {
+    if (variables[key] !== undefined) {
+      result[key] = variables[key];
+    }
+    return result;
+  }, {});
+  return JSON.stringify([query.replace(/\s+/g, ' ').trim(), sorted]);
+}
+
+function getHeaders(headers: any): Record<string, string> | undefined {
+  if (!headers) return undefined;
+  if (typeof headers.forEach === 'function' && typeof headers.get === 'function') {
+    const result: Record<string, string> = {};
+    headers.forEach((value: string, name: string) => {
+      result[name.toLowerCase()] = value;
+    });
+    return result;
+  }
+  return { ...headers };
+}
+
+export interface RecordingTransport extends SubgraphTransport {
+  readonly fixture: TransportFixture;
+  save(path: string): Promise<void>;
+}
+
+/**
+ * Transport passing requests to another one and recording every response and HTTP failure
+ */
+export function createRecordingTransport(inner: SubgraphTransport): RecordingTransport {
+  const fixture: TransportFixture = { version: FIXTURE_VERSION, entries: [] };
+  return {
+    fixture,
+    async request<T>(request: TransportRequest): Promise<T> {
+      const { query, variables } = request;
+      try {
+        const response = await inner.request<T>(request);
+        fixture.entries.push({ query, variables, response });
+        return response;
+      } catch (error: any) {
+        if (typeof error?.response?.status === 'number') {
+          fixture.entries.push({
+            query,
+            variables,
+            error: { status: error.response.status, message: error.message, headers: getHeaders(error.response.headers) }
+          });
+        }
+        throw error;
+      }
+    },
+    save: path => saveFixture(path, fixture)
+  };
+}
+
+export interface InjectedFailure {
+  status: number;                                    // HTTP status, e.g. 429 or 503
+  retryAfter?: string;                               // Retry-After header value
+  times?: number;                                    // Requests to fail, default 1
+  when?: (request: TransportRequest) => boolean;     // Only fail matching requests
+}
+
+export interface ReplayTransport extends SubgraphTransport {
+  readonly requests: TransportRequest[];             // Every request received, in order
+  inject(failure: InjectedFailure): void;
+}
+
+/**
+ * Transport answering from a fixture. Requests are matched by query and variables;
+ * a request recorded several times is answered in recorded order, then with the last
+ * answer. Unknown requests fail, so a fixture never silently goes stale.
+ */
+export function createReplayTransport(fixture: TransportFixture, failures: InjectedFailure[] = []): ReplayTransport {
+  const answers = new Map<string, FixtureEntry[]>();
+  for (const entry of fixture.entries) {
+    const key = getRequestKey(entry.query, entry.variables);
+    answers.set(key, [...(answers.get(key) || []), entry]);
+  }
+  const served = new Map<string, number>();
+  const pending = failures.map(failure => ({ ...failure, remaining: failure.times ?? 1 }));
+  const requests: TransportRequest[] = [];
+
+  return {
+    requests,
+    inject(failure: InjectedFailure) {
+      pending.push({ ...failure, remaining: failure.times ?? 1 });
+    },
+    async request<T>(request: TransportRequest): Promise<T> {
+      requests.push(request);
+      if (request.signal?.aborted) {
+        throw new Error('The operation was aborted');
+      }
+
+      const failure = pending.find(candidate => candidate.remaining > 0 && (!candidate.when || candidate.when(request)));
+      if (failure) {
+        failure.remaining--;
+        const headers: Record<string, string> = failure.retryAfter !== undefined ? { 'retry-after': failure.retryAfter } : {};
+        throw new TransportError(`Injected HTTP ${failure.status}`, { status: failure.status, headers });
+      }
+
+      const key = getRequestKey(request.query, request.variables);
+      const entries = answers.get(key);
+      if (!entries) {
+        throw new Error(`No fixture entry for request ${key.slice(0, 200)}`);
+      }
+      const index = served.get(key) || 0;
+      served.set(key, index + 1);
+      const entry = entries[Math.min(index, entries.length - 1)];
+
+      if (entry.error) {
+        throw new TransportError(entry.error.message, { status: entry.error.status, headers: entry.error.headers || {} });
+      }
+      return entry.response as T;
+    }
+  };
+}
+
+/**
+ * Validate a fixture read from JSON
+ */
+export function parseFixture(raw: unknown): TransportFixture {
+  const fixture = raw as TransportFixture;
+  if (!fixture || typeof fixture !== 'object') {
+    throw new Error('Fixture must be an object');
+  }
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new Error(`Unsupported fixture version ${fixture.version}, expected ${FIXTURE_VERSION}`);
+  }
+  if (!Array.isArray(fixture.entries)) {
+    throw new Error('Fixture entries must be an array');
+  }
+  fixture.entries.forEach((entry, index) => {
+    if (typeof entry.query !== 'string' || !entry.variables || typeof entry.variables !== 'object') {
+      throw new Error(`Fixture entry ${index} must have a query and variables`);
+    }
+    if ((entry.response === undefined) === (entry.error === undefined)) {
+      throw new Error(`Fixture entry ${index} must have exactly one of response and error`);
+    }
+  });
+  return { version: fixture.version, entries: [...fixture.entries] };
+}
+
+export async function loadFixture(path: string): Promise<TransportFixture> {
+  return parseFixture(JSON.parse(await readFile(path, 'utf8')));
+}
+
+/**
+ * Write the fixture to disk, replacing the previous file atomically
+ */
+export async function saveFixture(path: string, fixture: TransportFixture): Promise<void> {
+  const tempPath = `${path}.tmp`;
+  await writeFile(tempPath, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+  await rename(tempPath, path);
+}